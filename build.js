@@ -20,6 +20,7 @@ async function runBuildsSequentially() {
 			".wasm": "file"
 		},
 		plugins: [copyZstdWasmPlugin("pkg/esm")],
+		external: ["node:fs/promises"],
 		logLevel: "info",
 		assetNames: "[name]",
 		keepNames: true,
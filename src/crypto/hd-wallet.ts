@@ -0,0 +1,91 @@
+import { Mnemonic, XPrv } from "kaspa-wasm";
+import { ensureKaspaInitialized } from "../wasm/kaspa";
+import { Point } from "./secp256k1";
+import { FundingSigner } from "./signer";
+import { hexToInt, sha256FromBytes } from "./utils";
+
+/** SLIP-44 coin type of Kaspa. */
+const KASPA_COIN_TYPE = 111111;
+/** Hardened branch under the account holding the messaging keys. */
+const MESSAGING_BRANCH = 1000;
+
+/**
+ * HDWallet
+ *
+ * BIP39 mnemonic with BIP32/BIP44 derivation that keeps the roles of the
+ * SDK key apart:
+ *
+ *   funding      m/44'/111111'/account'/0/index              – UTXOs and fees
+ *   identity     m/44'/111111'/account'/1000'/0'             – payload signing, ECDH
+ *   conversation m/44'/111111'/account'/1000'/1'/n'          – per-peer subkeys
+ *
+ * The funding chain is the one regular Kaspa wallets use, so funds stay
+ * visible there. Funding addresses can be rotated by raising `index` without
+ * changing the identity peers know us by.
+ *
+ * Create instances with {@link fromMnemonic}.
+ */
+export class HDWallet {
+	readonly #root: XPrv;
+
+	private constructor(root: XPrv) {
+		this.#root = root;
+	}
+
+	/** Random BIP39 phrase of `wordCount` words (12 or 24). */
+	static async generateMnemonic(wordCount = 24): Promise<string> {
+		await ensureKaspaInitialized();
+		return Mnemonic.random(wordCount).phrase;
+	}
+
+	/**
+	 * @param passphrase - Optional BIP39 passphrase ("25th word").
+	 * @throws Error if the phrase is not a valid BIP39 mnemonic.
+	 */
+	static async fromMnemonic(phrase: string, passphrase = ""): Promise<HDWallet> {
+		await ensureKaspaInitialized();
+		if (!Mnemonic.validate(phrase)) throw new Error("Invalid mnemonic phrase");
+		return new HDWallet(new XPrv(new Mnemonic(phrase).toSeed(passphrase)));
+	}
+
+	/** Private key of the messaging identity. */
+	identityKey(account = 0): bigint {
+		return this.derive(`${accountPath(account)}/${MESSAGING_BRANCH}'/0'`);
+	}
+
+	/** Private key of funding address `index`. */
+	fundingKey(account = 0, index = 0): bigint {
+		if (!Number.isInteger(index) || index < 0 || index >= 2 ** 31) throw new RangeError(`Invalid funding index ${index}`);
+		return this.derive(`${accountPath(account)}/0/${index}`);
+	}
+
+	/**
+	 * Signer of funding address `index` that can still spend every earlier
+	 * funding address of the account.
+	 */
+	fundingSigner(account = 0, index = 0): FundingSigner {
+		const previous = Array.from({ length: index }, (_, i) => this.fundingKey(account, i));
+		return new FundingSigner(this.fundingKey(account, index), previous);
+	}
+
+	/**
+	 * Subkey dedicated to the conversation with `peerPublicKey`, e.g. for
+	 * keys announced to that peer only. The index comes from the peer key,
+	 * so the same subkey is found again after a restore.
+	 */
+	conversationKey(peerPublicKey: Point | string | Uint8Array, account = 0): bigint {
+		const point = peerPublicKey instanceof Point ? peerPublicKey : typeof peerPublicKey === "string" ? Point.fromHex(peerPublicKey) : Point.fromBytes(peerPublicKey);
+		const digest = sha256FromBytes(point.toCompressed());
+		const index = new DataView(digest.buffer, digest.byteOffset, 4).getUint32(0) & 0x7fffffff;
+		return this.derive(`${accountPath(account)}/${MESSAGING_BRANCH}'/1'/${index}'`);
+	}
+
+	private derive(path: string): bigint {
+		return hexToInt(this.#root.derivePath(path).privateKey);
+	}
+}
+
+function accountPath(account: number): string {
+	if (!Number.isInteger(account) || account < 0 || account >= 2 ** 31) throw new RangeError(`Invalid account ${account}`);
+	return `m/44'/${KASPA_COIN_TYPE}'/${account}'`;
+}
@@ -1,6 +1,7 @@
 import { Point, N, Secp256k1 } from "./secp256k1";
-import { bytesToHex, hexToBytes, bytesToInt, hexToInt, powModW4, modInv, randomBytes } from "./utils";
+import { bytesToHex, hexToBytes, bytesToInt, hexToInt, powModW4, modInv, randomBytes, sha256FromString } from "./utils";
 import { Schnorr } from "./signatures";
+import { Signer, toSigner } from "./signer";
 
 /**
  * Identifier
@@ -22,6 +23,8 @@ import { Schnorr } from "./signatures";
  *   - `next()` / `prev()` move the label forward or backward along the chain
  *     when the caller knows the same *chainKey*.
  *   - `verify()` checks a Schnorr signature against this public point.
+ *   - `stealth()` derives a one-time identifier for a recipient that only
+ *     the recipient's private key recognizes (`isStealthFor()`).
  *
  * Note: Without the matching *chainKey* two identifiers look like independent
  * points and cannot be linked.
@@ -74,6 +77,34 @@ export class Identifier {
 		return Identifier.fromBytes(p.toCompressed());
 	}
 
+	/**
+	 * Derive a **stealth** identifier for `recipient` from a one-time key:
+	 * `ID = PK_recipient · H(ECDH(oneTimeKey, PK_recipient))`.
+	 *
+	 * Needs no shared state, so it suits a first message to a new contact.
+	 * Whoever sees the identifier and the one-time public key learns nothing
+	 * about the recipient without the recipient's private key.
+	 */
+	static stealth(oneTimePrivateKey: bigint, recipient: Point | string | Uint8Array): Identifier {
+		const recipientPoint = toPoint(recipient);
+		return Identifier.fromChainKey(stealthFactor(oneTimePrivateKey, recipientPoint), 1, recipientPoint);
+	}
+
+	/**
+	 * Whether this identifier was derived by {@link stealth} for the owner of
+	 * `key`, given the one-time public key the sender used.
+	 * Costs one ECDH and one point multiplication.
+	 */
+	async isStealthFor(key: bigint | Signer, oneTimePublicKey: Point | string | Uint8Array): Promise<boolean> {
+		try {
+			const signer = toSigner(key);
+			const factor = sharedStealthFactor(await signer.getSharedSecret(toPoint(oneTimePublicKey)));
+			return Identifier.fromChainKey(factor, 1, Point.fromBytes(signer.publicKey)).hex === this.hex;
+		} catch {
+			return false;
+		}
+	}
+
 	/**
 	 * Retrieves a copy of the internal byte array.
 	 *
@@ -145,6 +176,19 @@ export class Identifier {
 	}
 }
 
+function toPoint(publicKey: Point | string | Uint8Array): Point {
+	return publicKey instanceof Point ? publicKey : typeof publicKey === "string" ? Point.fromHex(publicKey) : Point.fromBytes(publicKey);
+}
+
+/** Scalar `H(ECDH)` shared by the one-time key and the recipient key. */
+function stealthFactor(privateKey: bigint, publicKey: Point): bigint {
+	return sharedStealthFactor(Secp256k1.getSharedSecret(privateKey, publicKey));
+}
+
+function sharedStealthFactor(secret: Uint8Array): bigint {
+	return bytesToInt(sha256FromString(`kaspeak/stealth:${bytesToHex(secret)}`)) % N;
+}
+
 /**
  * SecretIdentifier
  *
@@ -2,4 +2,13 @@ export { ECDSA, Schnorr } from "./signatures";
 export { Secp256k1, Point } from "./secp256k1";
 export { Identifier, SecretIdentifier } from "./identifier";
 export { Peer } from "./peer";
+export { KeySigner, FundingSigner, MockSigner } from "./signer";
+export { HDWallet } from "./hd-wallet";
+export { Keystore, KEYSTORE_VERSION } from "./keystore";
+export type { KeystoreContent, KeystoreJSON, ScryptParams } from "./keystore";
+export { Shamir } from "./shamir";
+export type { SecretShare } from "./shamir";
+export type { Signer, SignerOperation } from "./signer";
+export { RatchetSession } from "./ratchet";
+export type { RatchetState } from "./ratchet";
 export { randomBytes, bytesToHex, hexToBytes, bytesToInt, intToHex, intToBytes, hexToInt } from "./utils";
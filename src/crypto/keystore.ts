@@ -0,0 +1,115 @@
+import { scryptAsync } from "@noble/hashes/scrypt";
+import { XChaCha20Poly1305 } from "@stablelib/xchacha20poly1305";
+import { bytesToHex, hexToBytes, randomBytes } from "./utils";
+
+export const KEYSTORE_VERSION = 1;
+
+/** Default scrypt cost: 128 MiB and about a second on a laptop. */
+const DEFAULT_SCRYPT = { N: 2 ** 17, r: 8, p: 1 };
+
+/** What a keystore protects. Holds either `privateKey` or `mnemonic`. */
+export interface KeystoreContent {
+	/** Identity private key (hex). */
+	privateKey?: string;
+	/** BIP39 phrase, restored through {@link HDWallet}. */
+	mnemonic?: string;
+	/** BIP39 passphrase of `mnemonic`. */
+	passphrase?: string;
+	/** Conversation secrets, e.g. from `Kaspeak.exportSecrets()`; must be JSON-compatible. */
+	secrets?: unknown;
+}
+
+export interface ScryptParams {
+	/** CPU/memory cost, a power of two. */
+	N: number;
+	r: number;
+	p: number;
+}
+
+/** Serialized keystore (format version 1). */
+export interface KeystoreJSON {
+	version: number;
+	kdf: { name: "scrypt"; salt: string } & ScryptParams;
+	cipher: { name: "xchacha20-poly1305"; nonce: string };
+	ciphertext: string;
+}
+
+/**
+ * Keystore
+ *
+ * Password-protected storage for the SDK identity, safe to keep in
+ * localStorage or on disk.
+ *
+ * • The key is derived from the password with scrypt and a random salt.
+ * • The content is sealed as JSON with XChaCha20-Poly1305; the format
+ *   version and KDF parameters are authenticated as associated data.
+ * • Passwords are NFKC-normalized, so the same text typed on another
+ *   platform opens the keystore.
+ */
+export class Keystore {
+	/** Seal `content` under `password`. */
+	static async encrypt(content: KeystoreContent, password: string, params: Partial<ScryptParams> = {}): Promise<KeystoreJSON> {
+		const kdf = { name: "scrypt" as const, ...DEFAULT_SCRYPT, ...params, salt: bytesToHex(randomBytes(32)) };
+		const nonce = randomBytes(24);
+		const head = { version: KEYSTORE_VERSION, kdf, cipher: { name: "xchacha20-poly1305" as const, nonce: bytesToHex(nonce) } };
+		const key = await deriveKey(password, head);
+		const plaintext = new TextEncoder().encode(JSON.stringify(content));
+		const ciphertext = new XChaCha20Poly1305(key).seal(nonce, plaintext, associatedData(head));
+		key.fill(0);
+		plaintext.fill(0);
+		return { ...head, ciphertext: bytesToHex(ciphertext) };
+	}
+
+	/**
+	 * Open a keystore produced by {@link encrypt}, given as object or JSON text.
+	 *
+	 * @throws Error on an unsupported version or KDF, or when the password is
+	 *         wrong or the keystore was modified.
+	 */
+	static async decrypt(keystore: KeystoreJSON | string, password: string): Promise<KeystoreContent> {
+		const json: KeystoreJSON = typeof keystore === "string" ? JSON.parse(keystore) : keystore;
+		checkFormat(json);
+		const key = await deriveKey(password, json);
+		const plaintext = new XChaCha20Poly1305(key).open(hexToBytes(json.cipher.nonce), hexToBytes(json.ciphertext), associatedData(json));
+		key.fill(0);
+		if (!plaintext) throw new Error("Wrong password or corrupted keystore");
+		const content = JSON.parse(new TextDecoder().decode(plaintext)) as KeystoreContent;
+		plaintext.fill(0);
+		return content;
+	}
+
+	/**
+	 * Re-seal a keystore under `newPassword` with a fresh salt and nonce.
+	 * `params` change the KDF cost; the previous ones are kept by default.
+	 *
+	 * @throws Error if `oldPassword` does not open the keystore.
+	 */
+	static async changePassword(
+		keystore: KeystoreJSON | string,
+		oldPassword: string,
+		newPassword: string,
+		params: Partial<ScryptParams> = {}
+	): Promise<KeystoreJSON> {
+		const json: KeystoreJSON = typeof keystore === "string" ? JSON.parse(keystore) : keystore;
+		const content = await Keystore.decrypt(json, oldPassword);
+		const { N, r, p } = json.kdf;
+		return Keystore.encrypt(content, newPassword, { N, r, p, ...params });
+	}
+}
+
+function checkFormat(json: KeystoreJSON): void {
+	if (json?.version !== KEYSTORE_VERSION) throw new Error(`Unsupported keystore version ${json?.version}`);
+	if (json.kdf?.name !== "scrypt") throw new Error(`Unsupported keystore KDF ${json.kdf?.name}`);
+	if (json.cipher?.name !== "xchacha20-poly1305") throw new Error(`Unsupported keystore cipher ${json.cipher?.name}`);
+}
+
+function deriveKey(password: string, { kdf }: Pick<KeystoreJSON, "kdf">): Promise<Uint8Array> {
+	const { N, r, p, salt } = kdf;
+	// scrypt refuses parameters needing more than 1 GiB, so a crafted keystore cannot exhaust memory
+	return scryptAsync(password.normalize("NFKC"), hexToBytes(salt), { N, r, p, dkLen: 32 });
+}
+
+/** Everything but the ciphertext, in a fixed order. */
+function associatedData({ version, kdf, cipher }: Omit<KeystoreJSON, "ciphertext">): Uint8Array {
+	return new TextEncoder().encode([version, kdf.name, kdf.N, kdf.r, kdf.p, kdf.salt, cipher.name, cipher.nonce].join(":"));
+}
@@ -1,22 +1,23 @@
-import { Point, Secp256k1 } from "./secp256k1";
+import { Point } from "./secp256k1";
 import { bytesToInt, sha256FromBytes } from "./utils";
+import type { Signer } from "./signer";
 
 export class Peer {
 	readonly address: string;
 	readonly #publicKey: Uint8Array;
 	readonly #signature: Uint8Array;
 	readonly isOwn: boolean;
-	readonly #privateKey: bigint;
+	readonly #signer: Signer;
 	#publicKeyPoint: Point | null = null;
 	#sharedSecret: Uint8Array | null = null;
 	#chainKey: bigint | null = null;
 
-	constructor(address: string, publicKey: Uint8Array, signature: Uint8Array, isOwn: boolean, privateKey: bigint) {
+	constructor(address: string, publicKey: Uint8Array, signature: Uint8Array, isOwn: boolean, signer: Signer) {
 		this.address = address;
 		this.#publicKey = new Uint8Array(publicKey);
 		this.#signature = new Uint8Array(signature);
 		this.isOwn = isOwn;
-		this.#privateKey = privateKey;
+		this.#signer = signer;
 	}
 
 	get publicKey(): Uint8Array {
@@ -32,16 +33,34 @@ export class Peer {
 		return this.#publicKeyPoint;
 	}
 
+	/**
+	 * ECDH secret with the sender.
+	 *
+	 * @throws Error if the signer has no `getSharedSecretSync`; use
+	 *         {@link getSharedSecret} with external signers.
+	 */
 	get sharedSecret(): Uint8Array {
-		if (!this.#sharedSecret) this.#sharedSecret = Secp256k1.getSharedSecret(this.#privateKey, this.publicKeyPoint);
+		if (!this.#sharedSecret) {
+			if (!this.#signer.getSharedSecretSync) throw new Error("Signer cannot derive shared secrets synchronously, use getSharedSecret()");
+			this.#sharedSecret = this.#signer.getSharedSecretSync(this.publicKeyPoint);
+		}
 		return new Uint8Array(this.#sharedSecret);
 	}
 
 	get chainKey(): bigint {
-		if (!this.#chainKey) {
-			const chainKeyBytes = sha256FromBytes(this.sharedSecret);
-			this.#chainKey = bytesToInt(chainKeyBytes);
-		}
+		if (this.#chainKey === null) this.#chainKey = bytesToInt(sha256FromBytes(this.sharedSecret));
+		return this.#chainKey;
+	}
+
+	/** {@link sharedSecret} for any signer; asked from the signer once. */
+	async getSharedSecret(): Promise<Uint8Array> {
+		if (!this.#sharedSecret) this.#sharedSecret = await this.#signer.getSharedSecret(this.publicKeyPoint);
+		return new Uint8Array(this.#sharedSecret);
+	}
+
+	/** {@link chainKey} for any signer. */
+	async getChainKey(): Promise<bigint> {
+		if (this.#chainKey === null) this.#chainKey = bytesToInt(sha256FromBytes(await this.getSharedSecret()));
 		return this.#chainKey;
 	}
 }
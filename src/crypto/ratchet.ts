@@ -0,0 +1,264 @@
+import { hkdf } from "@noble/hashes/hkdf";
+import { hmac } from "@noble/hashes/hmac";
+import { sha256 } from "@noble/hashes/sha2";
+import { XChaCha20Poly1305 } from "@stablelib/xchacha20poly1305";
+import { Point, Secp256k1, N } from "./secp256k1";
+import { bytesToHex, bytesToInt, hexToBytes, hexToInt, intToHex, randomBytes } from "./utils";
+import { Signer, toSigner } from "./signer";
+
+const RATCHET_INFO = new TextEncoder().encode("kaspeak/ratchet/v1");
+const HEADER_SIZE = 33 + 4 + 4;
+const NONCE_SIZE = 24;
+/** Most message keys derived ahead within one receiving chain. */
+const MAX_SKIP = 1_000;
+/** Most skipped message keys kept for late messages. */
+const MAX_SKIPPED_KEYS = 2_000;
+
+/**
+ * Serializable state of a {@link RatchetSession}. Contains ratchet private
+ * keys, never the long-term key; store it like a secret anyway.
+ */
+export interface RatchetState {
+	rootKey: string;
+	/** Current DH private key; `null` while the long-term key is used. */
+	dhSelf: string | null;
+	dhRemote: string;
+	sendChainKey: string | null;
+	recvChainKey: string | null;
+	sendCount: number;
+	recvCount: number;
+	prevSendCount: number;
+	/** `"<dh pub hex>:<n>"` → message key hex. */
+	skipped: Record<string, string>;
+}
+
+/**
+ * RatchetSession
+ *
+ * Double ratchet (Signal construction) over secp256k1 ECDH, HKDF-SHA256 and
+ * XChaCha20-Poly1305.
+ *
+ * • Every message is sealed with a fresh message key from a symmetric chain,
+ *   so a leaked key reveals nothing about earlier messages.
+ * • Each reply carries a new DH public key; receiving one rotates the root key,
+ *   so the session heals after a compromise.
+ * • Out-of-order messages are decrypted with skipped message keys.
+ *
+ * Bootstrap
+ * ---------
+ * Both sides start from the static ECDH secret of their long-term keys. The
+ * side with the smaller compressed public key ("initiator") starts with a
+ * fresh DH key; the other side starts with its long-term key and a symmetric
+ * chain, so either side may send first.
+ *
+ * Wire format: `dhPub(33) | prevCount u32 | count u32 | nonce(24) | ciphertext`,
+ * the 41-byte header being authenticated as associated data.
+ */
+export class RatchetSession {
+	/** Bytes {@link seal} adds to the plaintext. */
+	readonly overhead = HEADER_SIZE + NONCE_SIZE + 16;
+	#state: RatchetState;
+	readonly #identity: Signer;
+
+	private constructor(state: RatchetState, identity: Signer) {
+		this.#state = state;
+		this.#identity = identity;
+	}
+
+	/**
+	 * Start a session between the owner of `key` and `peerPublicKey`. Both
+	 * sides calling this with their own key produce matching sessions.
+	 */
+	static async init(key: bigint | Signer, peerPublicKey: Point): Promise<RatchetSession> {
+		const identity = toSigner(key);
+		const ownPublic = identity.publicKey;
+		const peerPublic = peerPublicKey.toCompressed();
+		const staticSecret = await identity.getSharedSecret(peerPublicKey);
+		const [rootKey, responderChain] = split(hkdf(sha256, staticSecret, undefined, RATCHET_INFO, 64), 2);
+		const initiator = bytesToHex(ownPublic) < bytesToHex(peerPublic);
+
+		if (!initiator) {
+			const state: RatchetState = {
+				rootKey: bytesToHex(rootKey),
+				dhSelf: null,
+				dhRemote: bytesToHex(peerPublic),
+				sendChainKey: bytesToHex(responderChain),
+				recvChainKey: null,
+				sendCount: 0,
+				recvCount: 0,
+				prevSendCount: 0,
+				skipped: {}
+			};
+			return new RatchetSession(state, identity);
+		}
+
+		const dhSelf = randomScalar();
+		const [nextRoot, sendChain] = kdfRoot(rootKey, Secp256k1.getSharedSecret(dhSelf, peerPublicKey));
+		const state: RatchetState = {
+			rootKey: bytesToHex(nextRoot),
+			dhSelf: intToHex(dhSelf, 32),
+			dhRemote: bytesToHex(peerPublic),
+			sendChainKey: bytesToHex(sendChain),
+			recvChainKey: bytesToHex(responderChain),
+			sendCount: 0,
+			recvCount: 0,
+			prevSendCount: 0,
+			skipped: {}
+		};
+		return new RatchetSession(state, identity);
+	}
+
+	/** Restore a session saved with {@link toJSON}, given the same long-term key. */
+	static fromJSON(state: RatchetState, key: bigint | Signer): RatchetSession {
+		return new RatchetSession(structuredClone(state), toSigner(key));
+	}
+
+	/** Snapshot of the session state. */
+	toJSON(): RatchetState {
+		return structuredClone(this.#state);
+	}
+
+	/** Encrypt `plaintext` with the next sending message key. */
+	seal(plaintext: Uint8Array): Uint8Array {
+		const s = this.#state;
+		if (!s.sendChainKey) throw new Error("Ratchet session has no sending chain");
+		const [chainKey, messageKey] = kdfChain(hexToBytes(s.sendChainKey));
+		const header = encodeHeader(this.dhPublic(s), s.prevSendCount, s.sendCount);
+		s.sendChainKey = bytesToHex(chainKey);
+		s.sendCount++;
+
+		const nonce = randomBytes(NONCE_SIZE);
+		const ciphertext = new XChaCha20Poly1305(messageKey).seal(nonce, plaintext, header);
+		const out = new Uint8Array(HEADER_SIZE + NONCE_SIZE + ciphertext.length);
+		out.set(header, 0);
+		out.set(nonce, HEADER_SIZE);
+		out.set(ciphertext, HEADER_SIZE + NONCE_SIZE);
+		return out;
+	}
+
+	/**
+	 * Decrypt a message produced by the peer's {@link seal}. The state only
+	 * changes when decryption succeeds.
+	 *
+	 * @returns The plaintext, or `null` if the message cannot be decrypted.
+	 */
+	async open(data: Uint8Array): Promise<Uint8Array | null> {
+		if (data.length < HEADER_SIZE + NONCE_SIZE) return null;
+		const header = data.subarray(0, HEADER_SIZE);
+		const nonce = data.subarray(HEADER_SIZE, HEADER_SIZE + NONCE_SIZE);
+		const ciphertext = data.subarray(HEADER_SIZE + NONCE_SIZE);
+		const { dh, prevCount, count } = decodeHeader(header);
+		// A first ratchet step from the long-term key needs the signer; ask it
+		// before copying the state, so the rest runs without yielding.
+		let identitySecret: Uint8Array | null = null;
+		if (dh !== this.#state.dhRemote && this.#state.dhSelf === null) {
+			try {
+				identitySecret = await this.#identity.getSharedSecret(Point.fromHex(dh));
+			} catch {
+				return null;
+			}
+		}
+		const s = structuredClone(this.#state);
+
+		const skippedKey = `${dh}:${count}`;
+		const skipped = s.skipped[skippedKey];
+		if (skipped) {
+			const plain = new XChaCha20Poly1305(hexToBytes(skipped)).open(nonce, ciphertext, header);
+			if (!plain) return null;
+			delete s.skipped[skippedKey];
+			this.#state = s;
+			return plain;
+		}
+
+		try {
+			if (dh !== s.dhRemote) {
+				skipMessageKeys(s, prevCount);
+				const remote = Point.fromHex(dh);
+				const [root1, recvChain] = kdfRoot(hexToBytes(s.rootKey), dhSharedSecret(s, remote, identitySecret));
+				const dhSelf = randomScalar();
+				const [root2, sendChain] = kdfRoot(root1, Secp256k1.getSharedSecret(dhSelf, remote));
+				s.prevSendCount = s.sendCount;
+				s.sendCount = 0;
+				s.recvCount = 0;
+				s.dhRemote = dh;
+				s.dhSelf = intToHex(dhSelf, 32);
+				s.rootKey = bytesToHex(root2);
+				s.recvChainKey = bytesToHex(recvChain);
+				s.sendChainKey = bytesToHex(sendChain);
+			}
+			skipMessageKeys(s, count);
+		} catch {
+			return null;
+		}
+		if (!s.recvChainKey) return null;
+
+		const [chainKey, messageKey] = kdfChain(hexToBytes(s.recvChainKey));
+		const plain = new XChaCha20Poly1305(messageKey).open(nonce, ciphertext, header);
+		if (!plain) return null;
+		s.recvChainKey = bytesToHex(chainKey);
+		s.recvCount++;
+		this.#state = s;
+		return plain;
+	}
+
+	/** Our ratchet public key; the long-term key until our first ratchet step. */
+	private dhPublic(s: RatchetState): Uint8Array {
+		return s.dhSelf === null ? this.#identity.publicKey : Secp256k1.getPub(hexToInt(s.dhSelf)).toCompressed();
+	}
+}
+
+/** ECDH of our ratchet key with `remote`; `identitySecret` stands in for the long-term key. */
+function dhSharedSecret(s: RatchetState, remote: Point, identitySecret: Uint8Array | null): Uint8Array {
+	if (s.dhSelf !== null) return Secp256k1.getSharedSecret(hexToInt(s.dhSelf), remote);
+	if (!identitySecret) throw new Error("Missing long-term shared secret");
+	return identitySecret;
+}
+
+/** Derive and store the receiving message keys up to (excluding) `until`. */
+function skipMessageKeys(s: RatchetState, until: number): void {
+	if (!s.recvChainKey) return;
+	if (until - s.recvCount > MAX_SKIP) throw new Error("Too many skipped messages");
+	let chainKey = hexToBytes(s.recvChainKey);
+	while (s.recvCount < until) {
+		const [next, messageKey] = kdfChain(chainKey);
+		s.skipped[`${s.dhRemote}:${s.recvCount}`] = bytesToHex(messageKey);
+		chainKey = next;
+		s.recvCount++;
+	}
+	s.recvChainKey = bytesToHex(chainKey);
+	const keys = Object.keys(s.skipped);
+	for (let i = 0; i < keys.length - MAX_SKIPPED_KEYS; i++) delete s.skipped[keys[i]];
+}
+
+function kdfRoot(rootKey: Uint8Array, dhOutput: Uint8Array): [Uint8Array, Uint8Array] {
+	const [root, chain] = split(hkdf(sha256, dhOutput, rootKey, RATCHET_INFO, 64), 2);
+	return [root, chain];
+}
+
+function kdfChain(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+	return [hmac(sha256, chainKey, Uint8Array.of(2)), hmac(sha256, chainKey, Uint8Array.of(1))];
+}
+
+function split(bytes: Uint8Array, parts: number): Uint8Array[] {
+	return Array.from({ length: parts }, (_, i) => bytes.slice(i * 32, (i + 1) * 32));
+}
+
+function randomScalar(): bigint {
+	let d = 0n;
+	while (d === 0n) d = bytesToInt(randomBytes(32)) % N;
+	return d;
+}
+
+function encodeHeader(dhPublic: Uint8Array, prevCount: number, count: number): Uint8Array {
+	const header = new Uint8Array(HEADER_SIZE);
+	const view = new DataView(header.buffer);
+	header.set(dhPublic, 0);
+	view.setUint32(33, prevCount);
+	view.setUint32(37, count);
+	return header;
+}
+
+function decodeHeader(header: Uint8Array): { dh: string; prevCount: number; count: number } {
+	const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+	return { dh: bytesToHex(header.subarray(0, 33)), prevCount: view.getUint32(33), count: view.getUint32(37) };
+}
@@ -0,0 +1,116 @@
+import { N, Secp256k1 } from "./secp256k1";
+import { bytesToHex, bytesToInt, hexToBytes, intToBytes, mod, modInv, randomBytes, sha256FromBytes } from "./utils";
+
+const SHARE_VERSION = 1;
+/** version u8 | threshold u8 | index u8 | fingerprint 4 | value 32 | checksum 4 */
+export const SHARE_SIZE = 43;
+
+/** One point of the sharing polynomial. */
+export interface SecretShare {
+	/** x-coordinate, 1–255. */
+	index: number;
+	/** Shares needed to recover the secret. */
+	threshold: number;
+	/** First 4 bytes (hex) of SHA-256 of the secret's public key; tells shares of different secrets apart. */
+	fingerprint: string;
+	value: bigint;
+}
+
+/**
+ * Shamir
+ *
+ * k-of-n secret sharing of a private key over the secp256k1 scalar field.
+ *
+ * • {@link split}       – random polynomial of degree k − 1 with the secret
+ *                         as constant term, evaluated at x = 1 … n.
+ * • {@link combine}     – Lagrange interpolation at x = 0; the result is
+ *                         checked against the fingerprint.
+ * • {@link encodeShare} – 43-byte form with a SHA-256 checksum, so typos in
+ *                         a share written down on paper are caught.
+ */
+export class Shamir {
+	/**
+	 * @param threshold - Shares needed for recovery (1 ≤ threshold ≤ count).
+	 * @param count     - Shares to create (at most 255).
+	 * @throws RangeError on an invalid secret, threshold or count.
+	 */
+	static split(secret: bigint, threshold: number, count: number): SecretShare[] {
+		if (secret <= 0n || secret >= N) throw new RangeError("Secret is not a valid private key");
+		if (!Number.isInteger(count) || count < 1 || count > 255) throw new RangeError(`Invalid share count ${count}`);
+		if (!Number.isInteger(threshold) || threshold < 1 || threshold > count) throw new RangeError(`Invalid threshold ${threshold} for ${count} shares`);
+		const coefficients = [secret];
+		for (let i = 1; i < threshold; i++) coefficients.push(mod(bytesToInt(randomBytes(48)), N));
+		const fingerprint = fingerprintOf(secret);
+		return Array.from({ length: count }, (_, i) => {
+			const x = BigInt(i + 1);
+			// Horner's rule
+			const value = coefficients.reduceRight((acc, c) => mod(acc * x + c, N), 0n);
+			return { index: i + 1, threshold, fingerprint, value };
+		});
+	}
+
+	/**
+	 * Recover the secret from at least `threshold` shares of one split.
+	 *
+	 * @throws Error if the shares are too few, mixed or do not reconstruct the
+	 *         secret they were made from.
+	 */
+	static combine(shares: SecretShare[]): bigint {
+		if (!shares.length) throw new Error("No shares given");
+		const { threshold, fingerprint } = shares[0];
+		const unique = new Map<number, SecretShare>();
+		for (const share of shares) {
+			if (share.threshold !== threshold || share.fingerprint !== fingerprint) throw new Error("Shares belong to different secrets");
+			unique.set(share.index, share);
+		}
+		if (unique.size < threshold) throw new Error(`Need ${threshold} shares, got ${unique.size}`);
+
+		const points = [...unique.values()].slice(0, threshold);
+		let secret = 0n;
+		for (const { index, value } of points) {
+			const xi = BigInt(index);
+			let numerator = 1n;
+			let denominator = 1n;
+			for (const { index: other } of points) {
+				if (other === index) continue;
+				const xj = BigInt(other);
+				numerator = mod(numerator * xj, N);
+				denominator = mod(denominator * (xj - xi), N);
+			}
+			secret = mod(secret + value * numerator * modInv(denominator, N), N);
+		}
+		if (secret === 0n || fingerprintOf(secret) !== fingerprint) throw new Error("Shares do not reconstruct the secret");
+		return secret;
+	}
+
+	static encodeShare(share: SecretShare): Uint8Array {
+		const out = new Uint8Array(SHARE_SIZE);
+		out[0] = SHARE_VERSION;
+		out[1] = share.threshold;
+		out[2] = share.index;
+		out.set(hexToBytes(share.fingerprint), 3);
+		out.set(intToBytes(share.value, 32), 7);
+		out.set(sha256FromBytes(out.subarray(0, 39)).subarray(0, 4), 39);
+		return out;
+	}
+
+	/**
+	 * Parse the output of {@link encodeShare}, as bytes or hex.
+	 *
+	 * @throws Error on a wrong length, version or checksum.
+	 */
+	static decodeShare(encoded: Uint8Array | string): SecretShare {
+		const bytes = typeof encoded === "string" ? hexToBytes(encoded.trim()) : encoded;
+		if (bytes.length !== SHARE_SIZE) throw new Error(`Share must be ${SHARE_SIZE} bytes, got ${bytes.length}`);
+		if (bytes[0] !== SHARE_VERSION) throw new Error(`Unsupported share version ${bytes[0]}`);
+		const checksum = sha256FromBytes(bytes.subarray(0, 39)).subarray(0, 4);
+		if (bytesToHex(checksum) !== bytesToHex(bytes.subarray(39))) throw new Error("Share checksum mismatch");
+		const share = { index: bytes[2], threshold: bytes[1], fingerprint: bytesToHex(bytes.subarray(3, 7)), value: bytesToInt(bytes.subarray(7, 39)) };
+		if (share.index < 1 || share.threshold < 1 || share.value >= N) throw new Error("Malformed share");
+		return share;
+	}
+}
+
+function fingerprintOf(secret: bigint): string {
+	return bytesToHex(sha256FromBytes(Secp256k1.getPub(secret).toCompressed()).subarray(0, 4));
+}
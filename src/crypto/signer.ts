@@ -0,0 +1,120 @@
+import { PrivateKey, Transaction, signTransaction } from "kaspa-wasm";
+import { Point, Secp256k1 } from "./secp256k1";
+import { Schnorr } from "./signatures";
+import { intToHex } from "./utils";
+
+/**
+ * Signer
+ *
+ * Every operation the SDK performs with the wallet key, so the key itself can
+ * stay in a browser wallet, an HSM or another process.
+ *
+ * • `publicKey`       – compressed public key (33 bytes).
+ * • `signMessage`     – Schnorr signature as produced by {@link Schnorr.sign};
+ *                       used for payloads and sealed envelopes.
+ * • `signTransaction` – sign every input of a transaction spending our UTXOs.
+ * • `getSharedSecret` – ECDH with a peer key, as {@link Secp256k1.getSharedSecret};
+ *                       asynchronous, so a wallet or HSM can answer remotely.
+ * • `getSharedSecretSync` – optional synchronous ECDH for signers holding the
+ *                       key locally; needed by `Peer.sharedSecret`,
+ *                       `Peer.chainKey` and `Kaspeak.deriveConversationKeys`.
+ * • `fundingPublicKeys` – optional keys whose UTXOs `signTransaction` can
+ *                       spend; defaults to `publicKey` alone.
+ */
+export interface Signer {
+	readonly publicKey: Uint8Array;
+	readonly fundingPublicKeys?: Uint8Array[];
+	signMessage(message: Uint8Array | string): Promise<Uint8Array>;
+	signTransaction(tx: Transaction): Promise<Transaction>;
+	getSharedSecret(publicKey: Point): Promise<Uint8Array>;
+	getSharedSecretSync?(publicKey: Point): Uint8Array;
+}
+
+/** {@link Signer} holding a raw private key in memory. */
+export class KeySigner implements Signer {
+	readonly #privateKey: bigint;
+	readonly publicKey: Uint8Array;
+
+	constructor(privateKey: bigint) {
+		this.#privateKey = privateKey;
+		this.publicKey = Secp256k1.getPub(privateKey).toCompressed();
+	}
+
+	signMessage(message: Uint8Array | string): Promise<Uint8Array> {
+		return Schnorr.sign(message, this.#privateKey);
+	}
+
+	async signTransaction(tx: Transaction): Promise<Transaction> {
+		return signTransaction(tx, [new PrivateKey(intToHex(this.#privateKey, 32))], true);
+	}
+
+	async getSharedSecret(publicKey: Point): Promise<Uint8Array> {
+		return Secp256k1.getSharedSecret(this.#privateKey, publicKey);
+	}
+
+	getSharedSecretSync(publicKey: Point): Uint8Array {
+		return Secp256k1.getSharedSecret(this.#privateKey, publicKey);
+	}
+}
+
+/**
+ * {@link KeySigner} that also spends the UTXOs of earlier funding keys, so
+ * rotating the funding address keeps old coins spendable. `publicKey` is the
+ * current key, which receives the change.
+ */
+export class FundingSigner extends KeySigner {
+	readonly #keys: bigint[];
+	readonly fundingPublicKeys: Uint8Array[];
+
+	/** @param previousKeys - Earlier funding keys that may still hold UTXOs. */
+	constructor(privateKey: bigint, previousKeys: bigint[] = []) {
+		super(privateKey);
+		this.#keys = [privateKey, ...previousKeys];
+		this.fundingPublicKeys = this.#keys.map((key) => Secp256k1.getPub(key).toCompressed());
+	}
+
+	async signTransaction(tx: Transaction): Promise<Transaction> {
+		return signTransaction(tx, this.#keys.map((key) => new PrivateKey(intToHex(key, 32))), true);
+	}
+}
+
+export type SignerOperation = "signMessage" | "signTransaction" | "getSharedSecret";
+
+/**
+ * MockSigner
+ *
+ * Key-backed {@link Signer} for tests. Records every operation in `calls` and
+ * can refuse to sign, like a wallet whose user rejected the request.
+ */
+export class MockSigner extends KeySigner {
+	readonly calls: SignerOperation[] = [];
+	/** When set, `signMessage` and `signTransaction` reject with this error. */
+	rejectWith: Error | null = null;
+
+	async signMessage(message: Uint8Array | string): Promise<Uint8Array> {
+		this.calls.push("signMessage");
+		if (this.rejectWith) throw this.rejectWith;
+		return super.signMessage(message);
+	}
+
+	async signTransaction(tx: Transaction): Promise<Transaction> {
+		this.calls.push("signTransaction");
+		if (this.rejectWith) throw this.rejectWith;
+		return super.signTransaction(tx);
+	}
+
+	async getSharedSecret(publicKey: Point): Promise<Uint8Array> {
+		this.calls.push("getSharedSecret");
+		return super.getSharedSecret(publicKey);
+	}
+
+	getSharedSecretSync(publicKey: Point): Uint8Array {
+		this.calls.push("getSharedSecret");
+		return super.getSharedSecretSync(publicKey);
+	}
+}
+
+/** Wrap a raw private key; signers are returned as they are. */
+export function toSigner(key: bigint | Signer): Signer {
+	return typeof key === "bigint" ? new KeySigner(key) : key;
+}
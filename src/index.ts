@@ -1,4 +1,36 @@
 export { Kaspeak } from "./sdk/kaspeak.ts";
+export type {
+	KaspeakEvents,
+	ConnectionInfo,
+	ConfirmationOptions,
+	KaspeakOptions,
+	MnemonicOptions,
+	ConversationIndices,
+	ConversationSecrets,
+	FirstContactHandler,
+	SendOptions,
+	SendResult,
+	SyncCursor,
+	SyncOptions,
+	SyncProgress,
+	SyncResult
+} from "./sdk/kaspeak.ts";
+export type { ReconnectOptions, ReconnectAttempt } from "./sdk/reconnect-supervisor";
+export type { TransactionState, TransactionStatus } from "./sdk/confirmation-tracker";
+export { Conversation } from "./sdk/conversation";
+export type { ConversationOptions } from "./sdk/conversation";
+export type { MessageCipher, EncodeOptions } from "./sdk/message-serializer";
+export { codecs, CodecRegistry } from "./sdk/codecs";
+export type { CodecOptions, CodecDescriptor, CompressionOptions, MessageEncoding, MessageCompression, MessageEncryption } from "./sdk/codecs";
+export { Group } from "./sdk/group";
+export type { GroupState } from "./sdk/group";
+export { IdentifierChain } from "./sdk/identifier-watcher";
+export type { ChainWatch, IdentifierHandler, IdentifierPredicate } from "./sdk/identifier-watcher";
+export * from "./store";
+export * from "./transport";
+export { KaspaWasm } from "./wasm/kaspa";
 export * from "./crypto";
 export * from "./models";
 export { setLogLevel } from "./utils/logger";
+export type { PaddingPolicy } from "./utils/padding";
+export { buildSubstringDictionary } from "./utils/compression";
@@ -0,0 +1,75 @@
+import { CHUNK_HEADER_SIZE, MAX_CHUNK_COUNT, MAX_DATA_SIZE } from "../sdk/constants";
+import { sha256FromBytes } from "../crypto/utils";
+
+/**
+ * Chunk
+ *
+ * One ordered part of a message whose encoded data does not fit into the
+ * 16-bit data length of a single {@link Payload}. Every part travels in its own
+ * transaction under the reserved `CHUNK_MESSAGE_TYPE`, is signed like any other
+ * payload and carries the SHA-256 digest of the whole message so the receiver
+ * can verify the reassembled bytes.
+ *
+ * Layout (little-endian):
+ *   messageType u16 | index u16 | total u16 | digest 32 | data
+ */
+export class Chunk {
+	messageType: number;
+	index: number;
+	total: number;
+	digest: Uint8Array;
+	data: Uint8Array;
+
+	constructor(messageType: number, index: number, total: number, digest: Uint8Array, data: Uint8Array) {
+		if (messageType >>> 0 > 0xffff) throw new Error(`Type ${messageType} is out of 16‑bit range`);
+		if (total < 1 || total > MAX_CHUNK_COUNT) throw new Error(`Chunk count ${total} is out of range`);
+		if (index < 0 || index >= total) throw new Error(`Chunk index ${index} is out of range 0..${total - 1}`);
+		if (digest.length !== 32) throw new Error("digest must be 32 bytes");
+		this.messageType = messageType;
+		this.index = index;
+		this.total = total;
+		this.digest = new Uint8Array(digest);
+		this.data = new Uint8Array(data);
+	}
+
+	/**
+	 * Split encoded message data into ordered chunks.
+	 *
+	 * @param messageType - Type of the message the data belongs to.
+	 * @param data        - Whole encoded message.
+	 * @param chunkSize   - Maximum number of data bytes per chunk.
+	 * @throws Error if the data needs more than `MAX_CHUNK_COUNT` chunks.
+	 */
+	static split(messageType: number, data: Uint8Array, chunkSize = MAX_DATA_SIZE - CHUNK_HEADER_SIZE): Chunk[] {
+		if (chunkSize < 1 || chunkSize > MAX_DATA_SIZE - CHUNK_HEADER_SIZE) throw new RangeError(`Invalid chunk size: ${chunkSize}`);
+		const total = Math.max(1, Math.ceil(data.length / chunkSize));
+		if (total > MAX_CHUNK_COUNT) throw new Error(`Message of ${data.length} bytes needs ${total} chunks, limit is ${MAX_CHUNK_COUNT}`);
+		const digest = sha256FromBytes(data);
+		const chunks: Chunk[] = [];
+		for (let i = 0; i < total; i++) {
+			chunks.push(new Chunk(messageType, i, total, digest, data.subarray(i * chunkSize, (i + 1) * chunkSize)));
+		}
+		return chunks;
+	}
+
+	static fromBytes(bytes: Uint8Array): Chunk {
+		if (bytes.length < CHUNK_HEADER_SIZE) throw new Error("Invalid chunk size");
+		const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		const messageType = dv.getUint16(0, true);
+		const index = dv.getUint16(2, true);
+		const total = dv.getUint16(4, true);
+		const digest = bytes.subarray(6, CHUNK_HEADER_SIZE);
+		return new Chunk(messageType, index, total, digest, bytes.subarray(CHUNK_HEADER_SIZE));
+	}
+
+	toBytes(): Uint8Array {
+		const out = new Uint8Array(CHUNK_HEADER_SIZE + this.data.length);
+		const dv = new DataView(out.buffer);
+		dv.setUint16(0, this.messageType, true);
+		dv.setUint16(2, this.index, true);
+		dv.setUint16(4, this.total, true);
+		out.set(this.digest, 6);
+		out.set(this.data, CHUNK_HEADER_SIZE);
+		return out;
+	}
+}
@@ -1,4 +1,6 @@
-export { Payload } from "./payload";
+export { Payload, PayloadFlag } from "./payload";
+export { Chunk } from "./chunk";
+export { SealedEnvelope, SEALED_ENVELOPE_OVERHEAD } from "./sealed-envelope";
 export { MessageHeader } from "./message-header";
 export type { BlockMeta } from "./message-header";
 export * from "./messages";
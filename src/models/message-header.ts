@@ -1,5 +1,5 @@
 import { Payload } from "../models";
-import { Identifier, Peer } from "../crypto";
+import { Identifier, Peer, Signer } from "../crypto";
 
 export interface BlockMeta {
 	hash: string;
@@ -15,6 +15,8 @@ export class MessageHeader {
 	identifier: Identifier;
 	blockMeta: BlockMeta;
 	consensusHash: string;
+	/** `PayloadFlag` bits of the payload; `0` for v1 payloads. */
+	flags: number;
 
 	private constructor(
 		txid: string,
@@ -23,7 +25,8 @@ export class MessageHeader {
 		type: number,
 		identifier: Identifier,
 		blockMeta: BlockMeta,
-		consensusHash: string
+		consensusHash: string,
+		flags = 0
 	) {
 		this.txid = txid;
 		this.peer = peer;
@@ -32,6 +35,23 @@ export class MessageHeader {
 		this.identifier = identifier;
 		this.blockMeta = blockMeta;
 		this.consensusHash = consensusHash;
+		this.flags = flags;
+	}
+
+	/**
+	 * Copy of this header that describes a different message type, e.g. the
+	 * message reassembled from chunks received under `CHUNK_MESSAGE_TYPE`.
+	 */
+	withType(type: number): MessageHeader {
+		return new MessageHeader(this.txid, this.peer, this.prefix, type, this.identifier, this.blockMeta, this.consensusHash, this.flags);
+	}
+
+	/**
+	 * Copy of this header with a different sender, e.g. the real sender
+	 * recovered from a sealed envelope, and the type of the inner message.
+	 */
+	withPeer(peer: Peer, type: number): MessageHeader {
+		return new MessageHeader(this.txid, peer, this.prefix, type, this.identifier, this.blockMeta, this.consensusHash, this.flags);
 	}
 
 	static fromTransaction(
@@ -42,11 +62,11 @@ export class MessageHeader {
 		payload: Payload,
 		blockMeta: BlockMeta,
 		consensusHash: string,
-		privateKey: bigint
+		signer: Signer
 	): MessageHeader {
 		const isOwn = myAddress === address;
-		const peer = new Peer(address, payload.publicKey, payload.signature, isOwn, privateKey);
+		const peer = new Peer(address, payload.publicKey, payload.signature, isOwn, signer);
 		const identifier = Identifier.fromBytes(payload.id);
-		return new this(txid, peer, prefix, payload.type, identifier, blockMeta, consensusHash);
+		return new this(txid, peer, prefix, payload.type, identifier, blockMeta, consensusHash, payload.flags);
 	}
 }
@@ -1,7 +1,27 @@
 import { MessageHeader } from "../message-header";
+import type { PaddingPolicy } from "../../utils/padding";
+import type { CodecOptions } from "../../sdk/codecs";
+import { MessageMigration, MessageSchema, schemaFromPlain, schemaToPlain } from "./message-schema";
 
 export abstract class BaseMessage {
 	static requiresEncryption: boolean = false;
+	/** Padding applied to the compressed body before encryption; needs v2 payloads, `Kaspeak.send` refuses it with v1. */
+	static paddingPolicy: PaddingPolicy = "none";
+	/** Encoding, compression and cipher choice; only used for described messages. */
+	static codec: CodecOptions = {};
+	/**
+	 * Shape of the plain object, checked by `MessageSerializer.decode` before
+	 * hydration. Classes with a schema get `toPlainObject` and
+	 * `fromPlainObject` for free.
+	 */
+	static schema: MessageSchema | null = null;
+	/**
+	 * Version of the plain object shape. Versions above 1 are written into the
+	 * encoded object, and older objects are upgraded through `migrations`.
+	 */
+	static schemaVersion: number = 1;
+	/** Upgrade from version `n` to `n + 1`, keyed by `n`. */
+	static migrations: Record<number, MessageMigration> = {};
 	static messageType: number = -1;
 	header?: MessageHeader;
 
@@ -13,11 +33,52 @@ export abstract class BaseMessage {
 		return (this.constructor as typeof BaseMessage).requiresEncryption;
 	}
 
+	get paddingPolicy(): PaddingPolicy {
+		return (this.constructor as typeof BaseMessage).paddingPolicy;
+	}
+
+	get codec(): CodecOptions {
+		return (this.constructor as typeof BaseMessage).codec;
+	}
+
+	get schema(): MessageSchema | null {
+		return (this.constructor as typeof BaseMessage).schema;
+	}
+
+	get schemaVersion(): number {
+		return (this.constructor as typeof BaseMessage).schemaVersion;
+	}
+
+	get migrations(): Record<number, MessageMigration> {
+		return (this.constructor as typeof BaseMessage).migrations;
+	}
+
 	get messageType(): number {
 		return (this.constructor as typeof BaseMessage).messageType;
 	}
 
-	abstract toPlainObject(): any;
+	/**
+	 * Plain object to encode; generated from {@link schema} unless overridden.
+	 *
+	 * @throws Error if the class has neither a schema nor an override.
+	 */
+	toPlainObject(): any {
+		return schemaToPlain(this.requireSchema(), this);
+	}
 
-	abstract fromPlainObject(obj: any): void;
+	/**
+	 * Hydrate from a decoded plain object; generated from {@link schema}
+	 * unless overridden. `MessageSerializer.decode` has already validated
+	 * `obj` against the schema.
+	 *
+	 * @throws Error if the class has neither a schema nor an override.
+	 */
+	fromPlainObject(obj: any): void {
+		Object.assign(this, schemaFromPlain(this.requireSchema(), obj));
+	}
+
+	private requireSchema(): MessageSchema {
+		if (!this.schema) throw new Error(`${this.constructor.name} needs a schema or its own toPlainObject/fromPlainObject`);
+		return this.schema;
+	}
 }
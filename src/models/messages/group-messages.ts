@@ -0,0 +1,63 @@
+import { BaseMessage } from "./base-message";
+import { MessageHeader } from "../message-header";
+import { GROUP_MEMBERSHIP_MESSAGE_TYPE, GROUP_SENDER_KEY_MESSAGE_TYPE } from "../../sdk/constants";
+import { sha256FromString } from "../../crypto/utils";
+import type { MessageSchema } from "./message-schema";
+
+/**
+ * Group member list of one epoch, signed by the group identity.
+ * Sent by the group owner to every member, encrypted pairwise.
+ */
+export class GroupMembershipMessage extends BaseMessage {
+	static requiresEncryption = true;
+	static messageType = GROUP_MEMBERSHIP_MESSAGE_TYPE;
+	static schema: MessageSchema = {
+		group: { type: "string", key: "g", maxLength: 66 },
+		epoch: { type: "integer", key: "e" },
+		members: { type: "array", key: "m", items: { type: "string", maxLength: 66 } },
+		signature: { type: "bytes", key: "s", maxLength: 64 }
+	};
+
+	group: string;
+	epoch: number;
+	members: string[];
+	signature: Uint8Array;
+
+	constructor(group = "", epoch = 0, members: string[] = [], signature: Uint8Array = new Uint8Array(), header?: MessageHeader) {
+		super(header);
+		this.group = group;
+		this.epoch = epoch;
+		this.members = members;
+		this.signature = signature;
+	}
+
+	/** Digest signed by the group identity. */
+	static signingDigest(group: string, epoch: number, members: string[]): Uint8Array {
+		return sha256FromString(`kaspeak/group-membership:${group}:${epoch}:${members.join(",")}`);
+	}
+}
+
+/**
+ * Sender key of one member for one group epoch, sent to every other member,
+ * encrypted pairwise.
+ */
+export class GroupSenderKeyMessage extends BaseMessage {
+	static requiresEncryption = true;
+	static messageType = GROUP_SENDER_KEY_MESSAGE_TYPE;
+	static schema: MessageSchema = {
+		group: { type: "string", key: "g", maxLength: 66 },
+		epoch: { type: "integer", key: "e" },
+		key: { type: "bytes", key: "k", maxLength: 32 }
+	};
+
+	group: string;
+	epoch: number;
+	key: Uint8Array;
+
+	constructor(group = "", epoch = 0, key: Uint8Array = new Uint8Array(), header?: MessageHeader) {
+		super(header);
+		this.group = group;
+		this.epoch = epoch;
+		this.key = key;
+	}
+}
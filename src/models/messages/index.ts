@@ -1,2 +1,6 @@
 export { BaseMessage } from "./base-message";
 export { UnknownMessage } from "./unknown-message";
+export { GroupMembershipMessage, GroupSenderKeyMessage } from "./group-messages";
+export { KeyShareMessage } from "./key-share-message";
+export { SCHEMA_VERSION_KEY, validateSchema } from "./message-schema";
+export type { MessageMigration, MessageSchema, SchemaField, SchemaType } from "./message-schema";
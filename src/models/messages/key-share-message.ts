@@ -0,0 +1,26 @@
+import { BaseMessage } from "./base-message";
+import { MessageHeader } from "../message-header";
+import { KEY_SHARE_MESSAGE_TYPE } from "../../sdk/constants";
+import { SHARE_SIZE } from "../../crypto/shamir";
+import type { MessageSchema } from "./message-schema";
+
+/**
+ * One {@link Shamir} share of an identity key, held by a trusted contact.
+ * Sent to the contact for safekeeping and back to the owner for recovery,
+ * encrypted pairwise.
+ */
+export class KeyShareMessage extends BaseMessage {
+	static requiresEncryption = true;
+	static messageType = KEY_SHARE_MESSAGE_TYPE;
+	static schema: MessageSchema = {
+		share: { type: "bytes", key: "s", maxLength: SHARE_SIZE }
+	};
+
+	/** Share in {@link Shamir.encodeShare} form. */
+	share: Uint8Array;
+
+	constructor(share: Uint8Array = new Uint8Array(), header?: MessageHeader) {
+		super(header);
+		this.share = share;
+	}
+}
@@ -0,0 +1,125 @@
+/**
+ * Declarative description of the plain object a message travels as.
+ *
+ * Each entry maps a message property to its wire representation:
+ *
+ * • `type`      – `string`, `number`, `integer`, `boolean`, `bigint`, `bytes`,
+ *                 `array` (with `items`) or `object` (with `fields`).
+ * • `key`       – wire key; defaults to the property name. Short keys keep the
+ *                 CBOR small.
+ * • `optional`  – the value may be absent (`undefined` or `null`).
+ * • `maxLength` – upper bound for string, byte and array lengths.
+ */
+export type SchemaType = "string" | "number" | "integer" | "boolean" | "bigint" | "bytes" | "array" | "object";
+
+export interface SchemaField {
+	type: SchemaType;
+	key?: string;
+	optional?: boolean;
+	maxLength?: number;
+	/** Element schema of an `array`. */
+	items?: SchemaField;
+	/** Property schemas of an `object`. */
+	fields?: MessageSchema;
+}
+
+export type MessageSchema = Record<string, SchemaField>;
+
+/** Converts a plain object of one schema version to the next. */
+export type MessageMigration = (obj: any) => any;
+
+/** Key of the schema version in encoded objects; absent means version 1. */
+export const SCHEMA_VERSION_KEY = "$v";
+
+/**
+ * Check a decoded plain object against `schema`. Keys the schema does not
+ * mention are ignored.
+ *
+ * @throws Error naming the offending path on the first violation.
+ */
+export function validateSchema(schema: MessageSchema, obj: any): void {
+	checkObject(schema, obj, "");
+}
+
+/** Plain object for the properties of `source`, keyed by wire keys. */
+export function schemaToPlain(schema: MessageSchema, source: any): any {
+	const out: any = {};
+	for (const [prop, field] of Object.entries(schema)) {
+		const value = source[prop];
+		if (value === undefined || value === null) continue;
+		out[field.key ?? prop] = valueToPlain(field, value);
+	}
+	return out;
+}
+
+/** Inverse of {@link schemaToPlain}: properties read from a validated plain object. */
+export function schemaFromPlain(schema: MessageSchema, obj: any): any {
+	const out: any = {};
+	for (const [prop, field] of Object.entries(schema)) {
+		const value = obj[field.key ?? prop];
+		out[prop] = value === undefined || value === null ? undefined : valueFromPlain(field, value);
+	}
+	return out;
+}
+
+function valueToPlain(field: SchemaField, value: any): any {
+	if (field.type === "array") return value.map((item: any) => valueToPlain(field.items!, item));
+	if (field.type === "object") return schemaToPlain(field.fields!, value);
+	return value;
+}
+
+function valueFromPlain(field: SchemaField, value: any): any {
+	if (field.type === "array") return value.map((item: any) => valueFromPlain(field.items!, item));
+	if (field.type === "object") return schemaFromPlain(field.fields!, value);
+	if (field.type === "bigint") return BigInt(value);
+	return value;
+}
+
+function checkObject(schema: MessageSchema, obj: any, path: string): void {
+	if (typeof obj !== "object" || obj === null || Array.isArray(obj) || obj instanceof Uint8Array) {
+		throw new Error(`${path || "message"} must be an object`);
+	}
+	for (const [prop, field] of Object.entries(schema)) {
+		checkValue(field, obj[field.key ?? prop], path ? `${path}.${prop}` : prop);
+	}
+}
+
+function checkValue(field: SchemaField, value: any, path: string): void {
+	if (value === undefined || value === null) {
+		if (field.optional) return;
+		throw new Error(`${path} is required`);
+	}
+	switch (field.type) {
+		case "string":
+		case "boolean":
+			if (typeof value !== field.type) throw new Error(`${path} must be a ${field.type}`);
+			break;
+		case "bigint":
+			// CBOR decodes small integers as numbers
+			if (typeof value !== "bigint" && !Number.isSafeInteger(value)) throw new Error(`${path} must be a bigint`);
+			break;
+		case "number":
+			if (typeof value !== "number" || !Number.isFinite(value)) throw new Error(`${path} must be a finite number`);
+			break;
+		case "integer":
+			if (!Number.isSafeInteger(value)) throw new Error(`${path} must be an integer`);
+			break;
+		case "bytes":
+			if (!(value instanceof Uint8Array)) throw new Error(`${path} must be bytes`);
+			break;
+		case "array":
+			if (!Array.isArray(value)) throw new Error(`${path} must be an array`);
+			if (!field.items) throw new Error(`${path} has no item schema`);
+			value.forEach((item, i) => checkValue(field.items!, item, `${path}[${i}]`));
+			break;
+		case "object":
+			if (!field.fields) throw new Error(`${path} has no field schema`);
+			checkObject(field.fields, value, path);
+			break;
+		default:
+			throw new Error(`${path} has unknown schema type ${field.type}`);
+	}
+	if (field.maxLength !== undefined && (typeof value === "string" || value instanceof Uint8Array || Array.isArray(value)) && value.length > field.maxLength) {
+		throw new Error(`${path} is longer than ${field.maxLength}`);
+	}
+}
@@ -1,5 +1,7 @@
-import { MARKER, PROTOCOL_VERSION, HEADER_SIZE } from "../sdk/constants";
+import { MARKER, PROTOCOL_VERSION, PROTOCOL_VERSION_V2, HEADER_SIZE, MAX_DATA_SIZE } from "../sdk/constants";
 import { Schnorr, SecretIdentifier, Identifier, bytesToHex, hexToBytes } from "../crypto";
+import { sha256FromBytes } from "../crypto/utils";
+import type { Signer } from "../crypto/signer";
 
 const dv = new DataView(new ArrayBuffer(2));
 function readU16(buf: Uint8Array, off: number): number {
@@ -13,9 +15,79 @@ function writeU16(buf: Uint8Array, off: number, val: number) {
 	buf[off + 1] = dv.getUint8(1);
 }
 
+/** Unsigned LEB128 length. */
+function varintSize(val: number): number {
+	let size = 1;
+	while (val >= 0x80) {
+		val = Math.floor(val / 0x80);
+		size++;
+	}
+	return size;
+}
+function writeVarint(buf: Uint8Array, off: number, val: number): number {
+	while (val >= 0x80) {
+		buf[off++] = (val & 0x7f) | 0x80;
+		val = Math.floor(val / 0x80);
+	}
+	buf[off++] = val;
+	return off;
+}
+/**
+ * Read a varint of at most `max`. Only the shortest encoding is accepted, so
+ * every length has exactly one byte form under the signature.
+ */
+function readVarint(buf: Uint8Array, off: number, max: number): [number, number] {
+	const maxSize = varintSize(max);
+	let val = 0;
+	for (let i = 0; i < maxSize; i++) {
+		if (off >= buf.length) throw new Error("Truncated varint");
+		const byte = buf[off++];
+		val += (byte & 0x7f) * 2 ** (7 * i);
+		if (byte & 0x80) continue;
+		if (i > 0 && byte === 0) throw new Error("Non-minimal varint");
+		if (val > max) throw new Error(`Varint ${val} exceeds ${max}`);
+		return [val, off];
+	}
+	throw new Error("Varint too long");
+}
+
+/** Size of the v2 header without the varint data length. */
+const V2_FIXED_HEADER_SIZE = 4 + 1 + 1 + 4 + 2 + 33 + 33 + 64;
+const V2_SIGNING_DOMAIN = new TextEncoder().encode("kaspeak/payload/v2\0");
+
+/**
+ * Bits of the v2 `flags` byte. They describe how `data` was produced; v1
+ * payloads carry no flags.
+ */
+export const PayloadFlag = {
+	COMPRESSED: 0x01,
+	ENCRYPTED: 0x02,
+	CHUNKED: 0x04,
+	PADDED: 0x08,
+	SEALED: 0x10,
+	/** `data` starts with a codec descriptor (see {@link MessageSerializer}). */
+	CODEC: 0x20
+} as const;
+
+/**
+ * Payload
+ *
+ * Message envelope written into the transaction payload.
+ *
+ * v1 (143-byte header, signs the hex concatenation of its fields):
+ *   marker 4 | version 1 | prefix 4 | type u16 | id 33 | publicKey 33 | signature 64 | dataLen u16 | data
+ *
+ * v2 (signs a domain-separated SHA-256 digest of the binary fields):
+ *   marker 4 | version 1 | flags 1 | prefix 4 | type u16 | id 33 | publicKey 33 | signature 64 | dataLen varint | data
+ *
+ * Both cap `data` at {@link MAX_DATA_SIZE}; larger messages are chunked. A v2
+ * length must be minimal and cover exactly the rest of the payload.
+ * {@link fromBytes} reads both, so v1 and v2 senders can share a prefix.
+ */
 export class Payload {
 	marker: Uint8Array;
 	version: number;
+	flags: number;
 	prefix: Uint8Array;
 	type: number;
 	id: Uint8Array;
@@ -23,11 +95,24 @@ export class Payload {
 	signature: Uint8Array;
 	data: Uint8Array;
 
-	constructor(prefix: Uint8Array, type: number, identifier: SecretIdentifier | Identifier, publicKey: Uint8Array, data: Uint8Array) {
+	constructor(
+		prefix: Uint8Array,
+		type: number,
+		identifier: SecretIdentifier | Identifier,
+		publicKey: Uint8Array,
+		data: Uint8Array,
+		version = PROTOCOL_VERSION,
+		flags = 0
+	) {
 		if (type >>> 0 > 0xffff) throw new Error(`Type ${type} is out of 16‑bit range`);
 		if (publicKey.length !== 33) throw new Error("publicKey must be 33 bytes");
+		if (data.length > MAX_DATA_SIZE) throw new Error(`Data length ${data.length} exceeds the ${MAX_DATA_SIZE}-byte limit`);
+		if (version !== PROTOCOL_VERSION && version !== PROTOCOL_VERSION_V2) throw new Error(`Unsupported payload version ${version}`);
+		if (flags >>> 0 > 0xff) throw new Error(`Flags ${flags} are out of 8‑bit range`);
+		if (version === PROTOCOL_VERSION && flags !== 0) throw new Error("v1 payloads carry no flags");
 		this.marker = MARKER;
-		this.version = PROTOCOL_VERSION;
+		this.version = version;
+		this.flags = flags;
 		this.prefix = new Uint8Array(prefix);
 		this.type = type;
 		this.id = identifier.bytes;
@@ -36,12 +121,27 @@ export class Payload {
 		this.data = new Uint8Array(data);
 	}
 
+	/** Header size of a payload of `version` carrying `dataLength` bytes. */
+	static headerSize(version: number, dataLength: number): number {
+		return version === PROTOCOL_VERSION_V2 ? V2_FIXED_HEADER_SIZE + varintSize(dataLength) : HEADER_SIZE;
+	}
+
 	static fromBytes(bytes: Uint8Array): Payload {
-		if (bytes.length < HEADER_SIZE) throw new Error("Invalid payload size");
-		let o = 0;
+		if (bytes.length < 5) throw new Error("Invalid payload size");
 		if (!bytes.subarray(0, 4).every((v, i) => v === MARKER[i])) throw new Error("Bad marker");
-		o += 4;
-		if (bytes[o++] !== PROTOCOL_VERSION) throw new Error("Bad version");
+		switch (bytes[4]) {
+			case PROTOCOL_VERSION:
+				return Payload.fromBytesV1(bytes);
+			case PROTOCOL_VERSION_V2:
+				return Payload.fromBytesV2(bytes);
+			default:
+				throw new Error("Bad version");
+		}
+	}
+
+	private static fromBytesV1(bytes: Uint8Array): Payload {
+		if (bytes.length < HEADER_SIZE) throw new Error("Invalid payload size");
+		let o = 5;
 		const prefix = bytes.subarray(o, o + 4);
 		o += 4;
 		const type = readU16(bytes, o);
@@ -62,11 +162,44 @@ export class Payload {
 		return p;
 	}
 
+	private static fromBytesV2(bytes: Uint8Array): Payload {
+		if (bytes.length < V2_FIXED_HEADER_SIZE + 1) throw new Error("Invalid payload size");
+		let o = 5;
+		const flags = bytes[o++];
+		const prefix = bytes.subarray(o, o + 4);
+		o += 4;
+		const type = readU16(bytes, o);
+		o += 2;
+		const identifier = Identifier.fromBytes(bytes.subarray(o, o + 33));
+		o += 33;
+		const publicKey = bytes.subarray(o, o + 33);
+		o += 33;
+		const signature = bytes.subarray(o, o + 64);
+		o += 64;
+		const [dataLen, dataStart] = readVarint(bytes, o, MAX_DATA_SIZE);
+		// Bytes past the data would not be covered by the signature.
+		if (dataStart + dataLen !== bytes.length) throw new Error("Data length mismatch");
+		const data = bytes.subarray(dataStart);
+		const p = new Payload(prefix, type, identifier, publicKey, data, PROTOCOL_VERSION_V2, flags);
+		p.signature = signature;
+		return p;
+	}
+
 	static fromHex(data: string): Payload {
 		return Payload.fromBytes(hexToBytes(data));
 	}
 
+	/** Whether every bit of `flag` (see {@link PayloadFlag}) is set. */
+	hasFlag(flag: number): boolean {
+		return (this.flags & flag) === flag;
+	}
+
 	toBytes(): Uint8Array {
+		if (this.data.length > MAX_DATA_SIZE) throw new Error(`Data length ${this.data.length} exceeds the ${MAX_DATA_SIZE}-byte limit`);
+		return this.version === PROTOCOL_VERSION_V2 ? this.toBytesV2(true) : this.toBytesV1();
+	}
+
+	private toBytesV1(): Uint8Array {
 		const total = HEADER_SIZE + this.data.length;
 		const out = new Uint8Array(total);
 		let o = 0;
@@ -83,12 +216,38 @@ export class Payload {
 		o += 33;
 		out.set(this.signature, o);
 		o += 64;
-		writeU16(out, o, this.data.length & 0xffff);
+		writeU16(out, o, this.data.length);
 		o += 2;
 		out.set(this.data, o);
 		return out;
 	}
 
+	/** v2 bytes; without the signature when `withSignature` is `false`, as signed. */
+	private toBytesV2(withSignature: boolean): Uint8Array {
+		const signatureSize = withSignature ? 64 : 0;
+		const out = new Uint8Array(V2_FIXED_HEADER_SIZE - 64 + signatureSize + varintSize(this.data.length) + this.data.length);
+		let o = 0;
+		out.set(this.marker, o);
+		o += 4;
+		out[o++] = this.version;
+		out[o++] = this.flags;
+		out.set(this.prefix, o);
+		o += 4;
+		writeU16(out, o, this.type);
+		o += 2;
+		out.set(this.id, o);
+		o += 33;
+		out.set(this.publicKey, o);
+		o += 33;
+		if (withSignature) {
+			out.set(this.signature, o);
+			o += 64;
+		}
+		o = writeVarint(out, o, this.data.length);
+		out.set(this.data, o);
+		return out;
+	}
+
 	toHex(): string {
 		return bytesToHex(this.toBytes());
 	}
@@ -106,13 +265,29 @@ export class Payload {
 		].join("");
 	}
 
-	async sign(outIds: string, priv: bigint | number): Promise<void> {
-		this.signature = await Schnorr.sign(this.buildMessage(outIds), priv);
+	/** v2 signing digest: SHA-256 over the domain tag, the unsigned payload and the outpoint ids. */
+	private buildDigest(outIds: string): Uint8Array {
+		const body = this.toBytesV2(false);
+		const outpoints = hexToBytes(outIds);
+		const message = new Uint8Array(V2_SIGNING_DOMAIN.length + body.length + outpoints.length);
+		message.set(V2_SIGNING_DOMAIN, 0);
+		message.set(body, V2_SIGNING_DOMAIN.length);
+		message.set(outpoints, V2_SIGNING_DOMAIN.length + body.length);
+		return sha256FromBytes(message);
+	}
+
+	private signedMessage(outIds: string): Uint8Array | string {
+		return this.version === PROTOCOL_VERSION_V2 ? this.buildDigest(outIds) : this.buildMessage(outIds);
+	}
+
+	async sign(outIds: string, key: bigint | number | Signer): Promise<void> {
+		const message = this.signedMessage(outIds);
+		this.signature = typeof key === "object" ? await key.signMessage(message) : await Schnorr.sign(message, key);
 	}
 
 	async verify(outIds: string): Promise<boolean> {
 		const pubHex = bytesToHex(this.publicKey);
-		return Schnorr.verify(this.signature, this.buildMessage(outIds), pubHex);
+		return Schnorr.verify(this.signature, this.signedMessage(outIds), pubHex);
 	}
 
 	getSize(): number {
@@ -0,0 +1,98 @@
+import { hkdf } from "@noble/hashes/hkdf";
+import { sha256 } from "@noble/hashes/sha2";
+import { XChaCha20Poly1305 } from "@stablelib/xchacha20poly1305";
+import { Point, Secp256k1 } from "../crypto/secp256k1";
+import { bytesToHex, randomBytes } from "../crypto/utils";
+import { Signer, toSigner } from "../crypto/signer";
+
+const SEALED_INFO = new TextEncoder().encode("kaspeak/sealed-sender/v1");
+const ENVELOPE_HEADER_SIZE = 33 + 64 + 2;
+const NONCE_SIZE = 24;
+/** Bytes {@link SealedEnvelope.seal} adds to the inner data. */
+export const SEALED_ENVELOPE_OVERHEAD = NONCE_SIZE + ENVELOPE_HEADER_SIZE + 16;
+
+/**
+ * SealedEnvelope
+ *
+ * Message whose sender stays hidden from everyone but the recipient. The
+ * payload travels under the reserved `SEALED_MESSAGE_TYPE`, its public key
+ * and signature belong to a one-time key, and the real sender key, its
+ * signature and the inner message are encrypted to the recipient with
+ * ECDH(one-time key, recipient key).
+ *
+ * The sender signs `oneTimePublicKey | messageType | data` with its long-term
+ * key, binding the inner message to the payload it arrived in.
+ *
+ * Layout before encryption (little-endian):
+ *   publicKey 33 | signature 64 | messageType u16 | data
+ *
+ * Encrypted form: `nonce(24) | ciphertext`.
+ */
+export class SealedEnvelope {
+	publicKey: Uint8Array;
+	signature: Uint8Array;
+	messageType: number;
+	data: Uint8Array;
+
+	constructor(publicKey: Uint8Array, signature: Uint8Array, messageType: number, data: Uint8Array) {
+		if (publicKey.length !== 33) throw new Error("publicKey must be 33 bytes");
+		if (signature.length !== 64) throw new Error("signature must be 64 bytes");
+		if (messageType >>> 0 > 0xffff) throw new Error(`Type ${messageType} is out of 16‑bit range`);
+		this.publicKey = new Uint8Array(publicKey);
+		this.signature = new Uint8Array(signature);
+		this.messageType = messageType;
+		this.data = new Uint8Array(data);
+	}
+
+	/** Message the sender signs with its long-term key. */
+	static signingMessage(oneTimePublicKey: Uint8Array, messageType: number, data: Uint8Array): string {
+		return [bytesToHex(oneTimePublicKey), messageType.toString(16).padStart(4, "0"), bytesToHex(data)].join("");
+	}
+
+	static fromBytes(bytes: Uint8Array): SealedEnvelope {
+		if (bytes.length < ENVELOPE_HEADER_SIZE) throw new Error("Invalid sealed envelope size");
+		const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		return new SealedEnvelope(bytes.subarray(0, 33), bytes.subarray(33, 97), dv.getUint16(97, true), bytes.subarray(ENVELOPE_HEADER_SIZE));
+	}
+
+	toBytes(): Uint8Array {
+		const out = new Uint8Array(ENVELOPE_HEADER_SIZE + this.data.length);
+		out.set(this.publicKey, 0);
+		out.set(this.signature, 33);
+		new DataView(out.buffer).setUint16(97, this.messageType, true);
+		out.set(this.data, ENVELOPE_HEADER_SIZE);
+		return out;
+	}
+
+	/** Encrypt the envelope to `recipient` with the one-time private key. */
+	seal(oneTimePrivateKey: bigint, recipient: Point): Uint8Array {
+		const oneTimePublicKey = Secp256k1.getPub(oneTimePrivateKey).toCompressed();
+		const key = envelopeKey(Secp256k1.getSharedSecret(oneTimePrivateKey, recipient), oneTimePublicKey);
+		const nonce = randomBytes(NONCE_SIZE);
+		const ciphertext = new XChaCha20Poly1305(key).seal(nonce, this.toBytes(), oneTimePublicKey);
+		const out = new Uint8Array(NONCE_SIZE + ciphertext.length);
+		out.set(nonce, 0);
+		out.set(ciphertext, NONCE_SIZE);
+		return out;
+	}
+
+	/**
+	 * Decrypt an envelope addressed to the owner of `key`.
+	 *
+	 * @returns The envelope, or `null` when it is not addressed to us or is malformed.
+	 */
+	static async open(data: Uint8Array, key: bigint | Signer, oneTimePublicKey: Uint8Array): Promise<SealedEnvelope | null> {
+		if (data.length < NONCE_SIZE) return null;
+		try {
+			const envKey = envelopeKey(await toSigner(key).getSharedSecret(Point.fromBytes(oneTimePublicKey)), oneTimePublicKey);
+			const plain = new XChaCha20Poly1305(envKey).open(data.subarray(0, NONCE_SIZE), data.subarray(NONCE_SIZE), oneTimePublicKey);
+			return plain ? SealedEnvelope.fromBytes(plain) : null;
+		} catch {
+			return null;
+		}
+	}
+}
+
+function envelopeKey(sharedSecret: Uint8Array, oneTimePublicKey: Uint8Array): Uint8Array {
+	return hkdf(sha256, sharedSecret, oneTimePublicKey, SEALED_INFO, 32);
+}
@@ -0,0 +1,120 @@
+import { Chunk } from "../models";
+import { bytesToHex, sha256FromBytes } from "../crypto/utils";
+import { logger } from "../utils/logger";
+
+/**
+ * Message reassembled from all of its chunks.
+ */
+export interface AssembledMessage {
+	messageType: number;
+	data: Uint8Array;
+}
+
+/**
+ * Internal buffer of a message whose chunks are still arriving.
+ */
+interface PendingMessage {
+	messageType: number;
+	total: number;
+	digest: string;
+	parts: (Uint8Array | undefined)[];
+	received: number;
+	createdAt: number;
+}
+
+/**
+ * ChunkAssembler buffers incoming {@link Chunk}s per key (sender public key +
+ * identifier) until every part has arrived, then concatenates them and checks
+ * the result against the whole-message digest.
+ *
+ * • Parts may arrive in any order; duplicates are ignored.
+ * • A chunk whose `messageType`, `total` or `digest` disagrees with the buffered
+ *   ones starts a new message under the same key.
+ * • At most `capacity` messages are buffered; the oldest is evicted first.
+ *   Incomplete messages older than `ttlMs` are dropped.
+ */
+export class ChunkAssembler {
+	private pending = new Map<string, PendingMessage>();
+
+	/**
+	 * @param capacity Maximum number of incomplete messages kept in memory.
+	 * @param ttlMs    Lifetime of an incomplete message, in milliseconds.
+	 */
+	constructor(
+		private readonly capacity = 256,
+		private readonly ttlMs = 10 * 60_000
+	) {
+		if (capacity < 1) throw new RangeError("capacity must be positive");
+	}
+
+	/**
+	 * Add a chunk to the buffer.
+	 *
+	 * @param key   - Grouping key of the message the chunk belongs to.
+	 * @param chunk - Parsed chunk.
+	 * @returns The reassembled message once the last missing chunk arrives and
+	 *          the digest matches; otherwise `null`.
+	 */
+	add(key: string, chunk: Chunk): AssembledMessage | null {
+		this.evictExpired();
+
+		const digest = bytesToHex(chunk.digest);
+		let entry = this.pending.get(key);
+		if (entry && (entry.digest !== digest || entry.total !== chunk.total || entry.messageType !== chunk.messageType)) {
+			this.pending.delete(key);
+			entry = undefined;
+		}
+		if (!entry) {
+			if (this.pending.size >= this.capacity) {
+				const oldest = this.pending.keys().next().value!;
+				this.pending.delete(oldest);
+			}
+			entry = {
+				messageType: chunk.messageType,
+				total: chunk.total,
+				digest,
+				parts: new Array(chunk.total),
+				received: 0,
+				createdAt: Date.now()
+			};
+			this.pending.set(key, entry);
+		}
+
+		if (entry.parts[chunk.index]) return null;
+		entry.parts[chunk.index] = chunk.data;
+		entry.received++;
+		if (entry.received < entry.total) return null;
+
+		this.pending.delete(key);
+		const size = entry.parts.reduce((s, p) => s + p!.length, 0);
+		const data = new Uint8Array(size);
+		let o = 0;
+		for (const part of entry.parts) {
+			data.set(part!, o);
+			o += part!.length;
+		}
+		if (bytesToHex(sha256FromBytes(data)) !== digest) {
+			logger.warn(`Chunked message digest mismatch for ${key}, dropping ${entry.total} parts`);
+			return null;
+		}
+		return { messageType: entry.messageType, data };
+	}
+
+	/** Number of messages still waiting for chunks. */
+	get size(): number {
+		return this.pending.size;
+	}
+
+	/** Drop every buffered chunk. */
+	clear(): void {
+		this.pending.clear();
+	}
+
+	private evictExpired(): void {
+		const deadline = Date.now() - this.ttlMs;
+		for (const [key, entry] of this.pending) {
+			if (entry.createdAt >= deadline) break;
+			this.pending.delete(key);
+		}
+	}
+}
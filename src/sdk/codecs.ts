@@ -0,0 +1,275 @@
+/**
+ * Codec stages of the {@link MessageSerializer} pipeline.
+ *
+ * A described message starts with a 3-byte descriptor naming the algorithm of
+ * every stage, so the receiver decodes whatever the sender chose:
+ *
+ *   encoding id | compression id | cipher id | body
+ *
+ * • Encodings turn the plain object into bytes (CBOR, JSON, …).
+ * • Compressions shrink the encoded bytes (none, Zstd, …).
+ * • Ciphers seal the compressed bytes with a symmetric key (XChaCha20-Poly1305,
+ *   AES-256-GCM, …). A {@link MessageCipher} passed as key is recorded as
+ *   {@link CUSTOM_CIPHER_ID}; the receiver has to supply the same kind.
+ *
+ * Ids 0–127 are reserved for the SDK; register own algorithms from 128.
+ *
+ * Shared Zstd dictionaries are registered by id as well; `zstd-dict` bodies
+ * end with the u16 dictionary id so the receiver picks the same one.
+ */
+
+import { decode as cborDecode, encode as cborEncode } from "cborg";
+import { XChaCha20Poly1305 } from "@stablelib/xchacha20poly1305";
+import { compressZstd, compressZstdWithDictionary, decompressZstd, decompressZstdWithDictionary } from "../utils/compression";
+import { bytesToHex, hexToBytes, randomBytes } from "../crypto/utils";
+import { ZSTD_COMPRESSION_LEVEL } from "./constants";
+
+export const CODEC_DESCRIPTOR_SIZE = 3;
+/** Cipher id recorded for messages sealed by a {@link MessageCipher}. */
+export const CUSTOM_CIPHER_ID = 0xff;
+
+export interface MessageEncoding {
+	id: number;
+	name: string;
+	encode(obj: any): Uint8Array;
+	decode(bytes: Uint8Array): any;
+}
+
+export interface MessageCompression {
+	id: number;
+	name: string;
+	compress(data: Uint8Array, options?: CompressionOptions): Uint8Array | Promise<Uint8Array>;
+	decompress(data: Uint8Array): Uint8Array | Promise<Uint8Array>;
+}
+
+export interface MessageEncryption {
+	id: number;
+	name: string;
+	/** Required key length in bytes. */
+	keySize: number;
+	/** Bytes `seal` adds to the plaintext; lets padding stay within one payload. */
+	overhead?: number;
+	seal(key: Uint8Array, plaintext: Uint8Array): Uint8Array | Promise<Uint8Array>;
+	/** @returns The plaintext, or `null` when authentication fails. */
+	open(key: Uint8Array, data: Uint8Array): Uint8Array | null | Promise<Uint8Array | null>;
+}
+
+export interface CompressionOptions {
+	/** Id of a dictionary registered with {@link CodecRegistry.registerDictionary}. */
+	dictionary?: number;
+}
+
+/**
+ * Per-class algorithm choice, set through the static `codec` property of a
+ * message class. Omitted stages use the defaults.
+ */
+export interface CodecOptions {
+	/** Encoding name (default `"cbor"`). */
+	encoding?: string;
+	/**
+	 * Compression name, or `"auto"` (default): Zstd unless that does not make
+	 * the data smaller, which is common for tiny messages.
+	 */
+	compression?: string;
+	/**
+	 * Shared dictionary id. `"auto"` then compresses with `zstd-dict`, which
+	 * pays off for short messages of a similar shape.
+	 */
+	dictionary?: number;
+	/** Cipher name for byte keys (default `"xchacha20-poly1305"`). */
+	cipher?: string;
+}
+
+/** Algorithm ids of a described message. */
+export interface CodecDescriptor {
+	encoding: number;
+	compression: number;
+	cipher: number;
+}
+
+/**
+ * CodecRegistry maps algorithm names and ids to their implementations.
+ *
+ * @throws Error on registering an id or name that is already taken.
+ */
+export class CodecRegistry {
+	private encodings = new Map<number, MessageEncoding>();
+	private compressions = new Map<number, MessageCompression>();
+	private ciphers = new Map<number, MessageEncryption>();
+	private dictionaries = new Map<number, Uint8Array>();
+
+	registerEncoding(encoding: MessageEncoding): this {
+		this.add(this.encodings, encoding, "encoding");
+		return this;
+	}
+
+	registerCompression(compression: MessageCompression): this {
+		this.add(this.compressions, compression, "compression");
+		return this;
+	}
+
+	registerCipher(cipher: MessageEncryption): this {
+		if (cipher.id === CUSTOM_CIPHER_ID) throw new Error(`Cipher id ${CUSTOM_CIPHER_ID} is reserved`);
+		this.add(this.ciphers, cipher, "cipher");
+		return this;
+	}
+
+	/**
+	 * Register a shared Zstd dictionary, e.g. one built by
+	 * {@link buildSubstringDictionary}. Sender and receiver must register the
+	 * same bytes under the same id. On {@link codecs} the dictionary is seen by
+	 * every {@link Kaspeak} instance in the process, so ids must be unique
+	 * across the whole application.
+	 *
+	 * @throws RangeError if `id` is not a u16.
+	 * @throws Error if the id is already taken.
+	 */
+	registerDictionary(id: number, dictionary: Uint8Array): this {
+		if (!Number.isInteger(id) || id < 0 || id > 0xffff) throw new RangeError(`Invalid dictionary id ${id}`);
+		if (this.dictionaries.has(id)) throw new Error(`dictionary id ${id} is already registered`);
+		this.dictionaries.set(id, new Uint8Array(dictionary));
+		return this;
+	}
+
+	dictionary(id: number): Uint8Array {
+		const dictionary = this.dictionaries.get(id);
+		if (!dictionary) throw new Error(`Unknown dictionary: ${id}`);
+		return dictionary;
+	}
+
+	encoding(idOrName: number | string): MessageEncoding {
+		return this.find(this.encodings, idOrName, "encoding");
+	}
+
+	compression(idOrName: number | string): MessageCompression {
+		return this.find(this.compressions, idOrName, "compression");
+	}
+
+	cipher(idOrName: number | string): MessageEncryption {
+		return this.find(this.ciphers, idOrName, "cipher");
+	}
+
+	private add<T extends { id: number; name: string }>(map: Map<number, T>, entry: T, kind: string): void {
+		if (!Number.isInteger(entry.id) || entry.id < 0 || entry.id > 0xff) throw new RangeError(`Invalid ${kind} id ${entry.id}`);
+		if (map.has(entry.id)) throw new Error(`${kind} id ${entry.id} is already registered`);
+		if ([...map.values()].some((e) => e.name === entry.name)) throw new Error(`${kind} "${entry.name}" is already registered`);
+		map.set(entry.id, entry);
+	}
+
+	private find<T extends { id: number; name: string }>(map: Map<number, T>, idOrName: number | string, kind: string): T {
+		const entry = typeof idOrName === "number" ? map.get(idOrName) : [...map.values()].find((e) => e.name === idOrName);
+		if (!entry) throw new Error(`Unknown ${kind}: ${idOrName}`);
+		return entry;
+	}
+}
+
+/* ------------------------------ Built-ins ------------------------------ */
+
+const cbor: MessageEncoding = { id: 0, name: "cbor", encode: (obj) => cborEncode(obj), decode: (bytes) => cborDecode(bytes) };
+
+/** JSON for debugging; byte arrays and bigints are tagged so they survive the round trip. */
+const json: MessageEncoding = {
+	id: 1,
+	name: "json",
+	encode: (obj) => new TextEncoder().encode(JSON.stringify(obj, jsonReplacer)),
+	decode: (bytes) => JSON.parse(new TextDecoder().decode(bytes), jsonReviver)
+};
+
+function jsonReplacer(_: string, value: any): any {
+	if (value instanceof Uint8Array) return { $bytes: bytesToHex(value) };
+	if (typeof value === "bigint") return { $bigint: value.toString() };
+	return value;
+}
+
+function jsonReviver(_: string, value: any): any {
+	if (typeof value?.$bytes === "string") return hexToBytes(value.$bytes);
+	if (typeof value?.$bigint === "string") return BigInt(value.$bigint);
+	return value;
+}
+
+const none: MessageCompression = { id: 0, name: "none", compress: (data) => data, decompress: (data) => data };
+
+const zstd: MessageCompression = {
+	id: 1,
+	name: "zstd",
+	compress: (data) => compressZstd(data, ZSTD_COMPRESSION_LEVEL),
+	decompress: (data) => decompressZstd(data)
+};
+
+/** Zstd against a registered dictionary: `frame | dictionary id u16 LE`. */
+const zstdDict: MessageCompression = {
+	id: 2,
+	name: "zstd-dict",
+	async compress(data, options) {
+		if (options?.dictionary === undefined) throw new Error("zstd-dict needs a dictionary id");
+		const frame = await compressZstdWithDictionary(data, codecs.dictionary(options.dictionary), ZSTD_COMPRESSION_LEVEL);
+		const out = new Uint8Array(frame.length + 2);
+		out.set(frame, 0);
+		new DataView(out.buffer).setUint16(frame.length, options.dictionary, true);
+		return out;
+	},
+	decompress(data) {
+		if (data.length < 2) throw new Error("Missing dictionary id");
+		const id = data[data.length - 2] | (data[data.length - 1] << 8);
+		return decompressZstdWithDictionary(data.subarray(0, data.length - 2), codecs.dictionary(id));
+	}
+};
+
+const xchacha20poly1305: MessageEncryption = {
+	id: 1,
+	name: "xchacha20-poly1305",
+	keySize: 32,
+	overhead: 24 + 16,
+	seal(key, plaintext) {
+		const nonce = randomBytes(24);
+		const ciphertext = new XChaCha20Poly1305(key).seal(nonce, plaintext);
+		const out = new Uint8Array(nonce.length + ciphertext.length);
+		out.set(nonce, 0);
+		out.set(ciphertext, nonce.length);
+		return out;
+	},
+	open(key, data) {
+		if (data.length < 24) return null;
+		return new XChaCha20Poly1305(key).open(data.subarray(0, 24), data.subarray(24));
+	}
+};
+
+/** AES-256-GCM through WebCrypto, hardware accelerated on most platforms. */
+const aes256gcm: MessageEncryption = {
+	id: 2,
+	name: "aes-256-gcm",
+	keySize: 32,
+	overhead: 12 + 16,
+	async seal(key, plaintext) {
+		const nonce = new Uint8Array(randomBytes(12));
+		const cryptoKey = await crypto.subtle.importKey("raw", new Uint8Array(key), "AES-GCM", false, ["encrypt"]);
+		const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce }, cryptoKey, new Uint8Array(plaintext)));
+		const out = new Uint8Array(nonce.length + ciphertext.length);
+		out.set(nonce, 0);
+		out.set(ciphertext, nonce.length);
+		return out;
+	},
+	async open(key, data) {
+		if (data.length < 12 + 16) return null;
+		const cryptoKey = await crypto.subtle.importKey("raw", new Uint8Array(key), "AES-GCM", false, ["decrypt"]);
+		try {
+			return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: data.slice(0, 12) }, cryptoKey, data.slice(12)));
+		} catch {
+			return null;
+		}
+	}
+};
+
+/**
+ * Registry used by {@link MessageSerializer}; register custom algorithms here.
+ * It is process-global: algorithms and dictionaries registered on it apply to
+ * every {@link Kaspeak} instance.
+ */
+export const codecs = new CodecRegistry()
+	.registerEncoding(cbor)
+	.registerEncoding(json)
+	.registerCompression(none)
+	.registerCompression(zstd)
+	.registerCompression(zstdDict)
+	.registerCipher(xchacha20poly1305)
+	.registerCipher(aes256gcm);
@@ -0,0 +1,361 @@
+import type { VirtualChainChange } from "../transport";
+import { logger } from "../utils/logger";
+
+/** Selected-chain blocks remembered as starting points for {@link ConfirmationTracker.lastChainBlock}. */
+const CHAIN_BLOCK_HISTORY = 100;
+
+/**
+ * Lifecycle of a tracked transaction.
+ *
+ *   submitted → included → accepted → confirmed
+ *       ↓          ↓          ↓
+ *       ↓          ↓      orphaned (accepting chain block removed; may be accepted again)
+ *       ↓          ↓          ↓
+ *       └──────────┴───→ expired (not accepted within the expiry window; no longer tracked)
+ */
+export type TransactionState = "submitted" | "included" | "accepted" | "confirmed" | "orphaned" | "expired";
+
+/**
+ * Snapshot of a tracked transaction, emitted on every state change.
+ */
+export interface TransactionStatus {
+	txid: string;
+	state: TransactionState;
+	/** `true` for transactions sent by this SDK instance. */
+	outgoing: boolean;
+	/** Block the transaction was first seen in. */
+	blockHash?: string;
+	/** Selected-chain block that accepted the transaction. */
+	acceptingBlockHash?: string;
+	/** DAA score distance between the virtual and the accepting block; `0` until accepted. */
+	confirmations: number;
+}
+
+/**
+ * Internal record of a tracked transaction.
+ */
+interface TrackedTransaction extends Omit<TransactionStatus, "confirmations"> {
+	includedDaaScore?: bigint;
+	acceptingDaaScore?: bigint;
+	/** Virtual DAA score after which an unaccepted transaction expires. */
+	expiresAt?: bigint;
+	/** Seen during a historical sync, so acceptance notifications will not arrive. */
+	historical: boolean;
+	onConfirmed: (() => void)[];
+	onExpired: (() => void)[];
+}
+
+/**
+ * ConfirmationTracker follows transactions through inclusion, acceptance on
+ * the selected chain and confirmation depth, driven by block-added and
+ * virtual-chain-changed notifications.
+ *
+ * • Confirmations count DAA score from the accepting chain block to the
+ *   highest DAA score seen in added blocks.
+ * • When a chain block is removed, every transaction it accepted becomes
+ *   `orphaned` until another chain block accepts it.
+ * • Transactions found by a historical sync never get acceptance
+ *   notifications; their confirmations count from the including block.
+ * • Acceptance that arrives before the transaction is included is kept
+ *   for a while and applied once it is.
+ * • A transaction not accepted within `expiry` DAA score of its submission,
+ *   inclusion or orphaning becomes `expired` and its `whenConfirmed`
+ *   callbacks are replaced by their expiry callbacks.
+ * • Entries are indexed by the DAA score at which they confirm or expire, so
+ *   an added block only visits the entries that are due.
+ * • Confirmed and expired transactions are forgotten. At most `capacity` transactions are
+ *   tracked; the oldest one without `whenConfirmed` callbacks is dropped
+ *   first. If every entry has callbacks, the oldest is dropped and its
+ *   callbacks run early, so deferred messages are delivered, not lost.
+ */
+export class ConfirmationTracker {
+	private tracked = new Map<string, TrackedTransaction>();
+	private byAcceptingBlock = new Map<string, Set<string>>();
+	private blockDaaScores = new Map<string, bigint>();
+	/** Acceptance of transactions not tracked yet: txid → accepting block hash. */
+	private earlyAcceptance = new Map<string, string>();
+	/** Recent selected-chain blocks, oldest first. */
+	private chainBlocks: string[] = [];
+	private due = new DueQueue();
+	private virtualDaaScore = 0n;
+
+	/**
+	 * @param depth    Confirmations after which a transaction is `confirmed`.
+	 * @param onStatus Called with a snapshot on every state change.
+	 * @param capacity Maximum number of tracked transactions and remembered blocks.
+	 * @param expiry   DAA score after which an unaccepted transaction expires; `0` never expires.
+	 */
+	constructor(
+		private readonly depth: number,
+		private readonly onStatus: (status: TransactionStatus) => void,
+		private readonly capacity = 10_000,
+		private readonly expiry = 0
+	) {
+		if (depth < 0) throw new RangeError("depth must be ≥ 0");
+		if (expiry < 0) throw new RangeError("expiry must be ≥ 0");
+	}
+
+	/** Latest known selected-chain block, the starting point to re-query acceptance after a gap. */
+	get lastChainBlock(): string | undefined {
+		return this.chainBlocks[this.chainBlocks.length - 1];
+	}
+
+	/** Start tracking a transaction this instance has just submitted. */
+	trackSent(txid: string): void {
+		if (this.tracked.has(txid)) return;
+		const entry = this.add({ txid, state: "submitted", outgoing: true, historical: false, onConfirmed: [], onExpired: [] });
+		this.emit(entry);
+		// Before the first block there is no DAA score to count from; inclusion starts the window then.
+		if (this.virtualDaaScore > 0n) this.scheduleExpiry(entry, this.virtualDaaScore);
+	}
+
+	/**
+	 * Record that `txid` was found in a block.
+	 *
+	 * @param historical - `true` when the block comes from a historical sync.
+	 */
+	markIncluded(txid: string, blockHash: string, daaScore: bigint, historical = false): void {
+		let entry = this.tracked.get(txid);
+		if (!entry) {
+			entry = this.add({ txid, state: "submitted", outgoing: false, historical, onConfirmed: [], onExpired: [] });
+		}
+		if (entry.state !== "submitted") return;
+		entry.state = "included";
+		entry.blockHash = blockHash;
+		entry.includedDaaScore = daaScore;
+		entry.historical = historical;
+		this.emit(entry);
+		const acceptingBlockHash = this.earlyAcceptance.get(txid);
+		if (acceptingBlockHash) {
+			this.earlyAcceptance.delete(txid);
+			this.accept(entry, acceptingBlockHash);
+		} else if (historical) this.schedule(entry);
+		else this.scheduleExpiry(entry, daaScore);
+	}
+
+	/**
+	 * Run `callback` once `txid` is confirmed; immediately if it already is
+	 * or is not tracked at all. If the transaction expires instead,
+	 * `onExpired` runs and `callback` never does.
+	 */
+	whenConfirmed(txid: string, callback: () => void, onExpired?: () => void): void {
+		const entry = this.tracked.get(txid);
+		if (!entry) return callback();
+		entry.onConfirmed.push(callback);
+		if (onExpired) entry.onExpired.push(onExpired);
+	}
+
+	/** Note an added block; advances the virtual DAA score. */
+	noteBlock(hash: string, daaScore: bigint): void {
+		if (this.blockDaaScores.size >= this.capacity) this.blockDaaScores.delete(this.blockDaaScores.keys().next().value!);
+		this.blockDaaScores.set(hash, daaScore);
+		if (daaScore <= this.virtualDaaScore) return;
+		this.virtualDaaScore = daaScore;
+		for (const txid of this.due.popUntil(daaScore)) {
+			const entry = this.tracked.get(txid);
+			if (entry) this.schedule(entry);
+		}
+	}
+
+	/** Apply a virtual-chain-changed notification, or the answer to a re-query of the chain. */
+	applyChainChange(change: VirtualChainChange): void {
+		for (const hash of change.removedChainBlockHashes) {
+			for (const txid of this.byAcceptingBlock.get(hash) ?? []) {
+				const entry = this.tracked.get(txid);
+				if (!entry) continue;
+				entry.state = "orphaned";
+				entry.acceptingBlockHash = undefined;
+				entry.acceptingDaaScore = undefined;
+				this.emit(entry);
+				this.scheduleExpiry(entry, this.virtualDaaScore);
+			}
+			this.byAcceptingBlock.delete(hash);
+		}
+		const removed = new Set(change.removedChainBlockHashes);
+		this.chainBlocks = [...this.chainBlocks.filter((hash) => !removed.has(hash)), ...change.addedChainBlockHashes].slice(-CHAIN_BLOCK_HISTORY);
+
+		for (const { acceptingBlockHash, acceptedTransactionIds } of change.acceptedTransactionIds) {
+			for (const txid of acceptedTransactionIds) {
+				const entry = this.tracked.get(txid);
+				if (entry) this.accept(entry, acceptingBlockHash);
+				else this.rememberAcceptance(txid, acceptingBlockHash);
+			}
+		}
+	}
+
+	/** Current status of `txid`, or `undefined` if it is not (or no longer) tracked. */
+	get(txid: string): TransactionStatus | undefined {
+		const entry = this.tracked.get(txid);
+		return entry ? this.snapshot(entry) : undefined;
+	}
+
+	/** Forget every tracked transaction and pending callback. */
+	clear(): void {
+		this.tracked.clear();
+		this.byAcceptingBlock.clear();
+		this.blockDaaScores.clear();
+		this.earlyAcceptance.clear();
+		this.chainBlocks = [];
+		this.due.clear();
+	}
+
+	private accept(entry: TrackedTransaction, acceptingBlockHash: string): void {
+		if (entry.state === "submitted") {
+			// Accepted before the including block reached us.
+			this.rememberAcceptance(entry.txid, acceptingBlockHash);
+			return;
+		}
+		if (entry.acceptingBlockHash === acceptingBlockHash) return;
+		if (entry.acceptingBlockHash) this.byAcceptingBlock.get(entry.acceptingBlockHash)?.delete(entry.txid);
+		entry.state = "accepted";
+		entry.acceptingBlockHash = acceptingBlockHash;
+		entry.acceptingDaaScore = this.blockDaaScores.get(acceptingBlockHash) ?? this.virtualDaaScore;
+		entry.expiresAt = undefined;
+		let txids = this.byAcceptingBlock.get(acceptingBlockHash);
+		if (!txids) this.byAcceptingBlock.set(acceptingBlockHash, (txids = new Set()));
+		txids.add(entry.txid);
+		this.emit(entry);
+		this.schedule(entry);
+	}
+
+	private rememberAcceptance(txid: string, acceptingBlockHash: string): void {
+		if (this.earlyAcceptance.size >= this.capacity) this.earlyAcceptance.delete(this.earlyAcceptance.keys().next().value!);
+		this.earlyAcceptance.set(txid, acceptingBlockHash);
+	}
+
+	private add(entry: TrackedTransaction): TrackedTransaction {
+		if (this.tracked.size >= this.capacity) this.evict();
+		this.tracked.set(entry.txid, entry);
+		return entry;
+	}
+
+	private evict(): void {
+		for (const entry of this.tracked.values()) {
+			if (entry.onConfirmed.length) continue;
+			logger.debug(`Confirmation tracker full, stopped tracking ${entry.txid}`);
+			this.forget(entry.txid);
+			return;
+		}
+		const oldest = this.tracked.values().next().value!;
+		logger.warn(`Confirmation tracker full, releasing ${oldest.onConfirmed.length} callback(s) of ${oldest.txid} before confirmation`);
+		this.forget(oldest.txid);
+		this.runCallbacks(oldest.onConfirmed);
+	}
+
+	private forget(txid: string): void {
+		const entry = this.tracked.get(txid);
+		if (!entry) return;
+		this.tracked.delete(txid);
+		if (entry.acceptingBlockHash) this.byAcceptingBlock.get(entry.acceptingBlockHash)?.delete(txid);
+	}
+
+	/** DAA score the confirmations of `entry` count from, if it has one. */
+	private base(entry: TrackedTransaction): bigint | undefined {
+		return entry.acceptingDaaScore ?? (entry.historical ? entry.includedDaaScore : undefined);
+	}
+
+	/** Confirm or expire `entry` if it is due, or queue it for the DAA score at which it will be. */
+	private schedule(entry: TrackedTransaction): void {
+		const base = this.base(entry);
+		if (base !== undefined) {
+			const confirmsAt = base + BigInt(this.depth);
+			if (this.virtualDaaScore >= confirmsAt) this.confirm(entry);
+			else this.due.push(confirmsAt, entry.txid);
+		} else if (entry.expiresAt !== undefined) {
+			if (this.virtualDaaScore >= entry.expiresAt) this.expire(entry);
+			else this.due.push(entry.expiresAt, entry.txid);
+		}
+	}
+
+	private scheduleExpiry(entry: TrackedTransaction, from: bigint): void {
+		if (!this.expiry) return;
+		entry.expiresAt = from + BigInt(this.expiry);
+		this.schedule(entry);
+	}
+
+	private confirm(entry: TrackedTransaction): void {
+		entry.state = "confirmed";
+		this.forget(entry.txid);
+		this.emit(entry);
+		this.runCallbacks(entry.onConfirmed);
+	}
+
+	private expire(entry: TrackedTransaction): void {
+		entry.state = "expired";
+		this.forget(entry.txid);
+		this.emit(entry);
+		if (entry.onExpired.length) logger.debug(`Transaction ${entry.txid} expired before confirmation`);
+		this.runCallbacks(entry.onExpired);
+	}
+
+	private runCallbacks(callbacks: (() => void)[]): void {
+		for (const callback of callbacks) {
+			try {
+				callback();
+			} catch (err) {
+				logger.error("confirmation callback error:", err);
+			}
+		}
+	}
+
+	private emit(entry: TrackedTransaction): void {
+		this.onStatus(this.snapshot(entry));
+	}
+
+	private snapshot(entry: TrackedTransaction): TransactionStatus {
+		const { txid, state, outgoing, blockHash, acceptingBlockHash } = entry;
+		const base = state === "expired" ? undefined : this.base(entry);
+		const confirmations = base !== undefined && this.virtualDaaScore > base ? Number(this.virtualDaaScore - base) : 0;
+		return { txid, state, outgoing, blockHash, acceptingBlockHash, confirmations };
+	}
+}
+
+/**
+ * Min-heap of `[daaScore, txid]`. Entries are not removed when their
+ * transaction changes state; the tracker re-checks each popped txid.
+ */
+class DueQueue {
+	private items: [bigint, string][] = [];
+
+	push(daaScore: bigint, txid: string): void {
+		const items = this.items;
+		items.push([daaScore, txid]);
+		for (let i = items.length - 1; i > 0; ) {
+			const parent = (i - 1) >> 1;
+			if (items[parent][0] <= items[i][0]) break;
+			[items[parent], items[i]] = [items[i], items[parent]];
+			i = parent;
+		}
+	}
+
+	/** Remove and return the txids due at or before `daaScore`. */
+	popUntil(daaScore: bigint): string[] {
+		const txids: string[] = [];
+		while (this.items.length && this.items[0][0] <= daaScore) txids.push(this.pop());
+		return txids;
+	}
+
+	clear(): void {
+		this.items = [];
+	}
+
+	private pop(): string {
+		const items = this.items;
+		const [, txid] = items[0];
+		const last = items.pop()!;
+		if (items.length) {
+			items[0] = last;
+			for (let i = 0; ; ) {
+				const left = 2 * i + 1;
+				const right = left + 1;
+				let smallest = i;
+				if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+				if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+				if (smallest === i) break;
+				[items[smallest], items[i]] = [items[i], items[smallest]];
+				i = smallest;
+			}
+		}
+		return txid;
+	}
+}
@@ -1,5 +1,20 @@
 export const HEADER_SIZE = 143;
+export const MAX_DATA_SIZE = 0xffff;
+export const CHUNK_HEADER_SIZE = 38;
+export const MAX_CHUNK_COUNT = 0xffff;
+export const CHUNK_UTXO_WAIT_MS = 30_000;
+export const RESERVED_MESSAGE_TYPE_MIN = 0xff00;
+export const CHUNK_MESSAGE_TYPE = 0xff00;
 export const MARKER = new Uint8Array([0x4b, 0x53, 0x50, 0x4b]);
 export const PROTOCOL_VERSION = 1;
+export const PROTOCOL_VERSION_V2 = 2;
 export const ZSTD_COMPRESSION_LEVEL = 16;
 export const DEFAULT_NETWORK_ID = "testnet-10";
+export const STATE_FLUSH_INTERVAL_MS = 2_000;
+export const DEFAULT_CONFIRMATION_DEPTH = 100;
+export const DEFAULT_CONFIRMATION_EXPIRY = 6_000;
+export const GROUP_MEMBERSHIP_MESSAGE_TYPE = 0xff01;
+export const GROUP_EPOCH_GRACE_DAA = 600;
+export const GROUP_SENDER_KEY_MESSAGE_TYPE = 0xff02;
+export const SEALED_MESSAGE_TYPE = 0xff03;
+export const KEY_SHARE_MESSAGE_TYPE = 0xff04;
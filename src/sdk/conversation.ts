@@ -0,0 +1,126 @@
+import { Identifier, Point } from "../crypto";
+import { bytesToHex } from "../crypto/utils";
+import type { BaseMessage, MessageHeader } from "../models";
+import type { ConversationIndices, ConversationKeys, Kaspeak, SendOptions, SendResult } from "./kaspeak";
+import { IdentifierChain } from "./identifier-watcher";
+import type { MessageCipher } from "./message-serializer";
+
+export interface ConversationOptions {
+	/** Number of upcoming receive identifiers matched ahead of the last one seen (default 20). */
+	lookAhead?: number;
+	/**
+	 * Encrypt with a forward-secret {@link RatchetSession} instead of the
+	 * static shared secret (default `false`). Both sides must enable it.
+	 */
+	ratchet?: boolean;
+}
+
+/**
+ * Conversation
+ *
+ * Private 1:1 chat with one peer over two identifier chains derived from the
+ * shared `chainKey`:
+ *
+ *   send:    ID(i) = PK_own  · chainKey^i
+ *   receive: ID(i) = PK_peer · chainKey^i
+ *
+ * so both sides compute the same pair without exchanging anything.
+ *
+ * • {@link send} takes the next send index, encrypts with the shared secret
+ *   and writes the identifier into the payload.
+ * • {@link accept} matches an incoming header against an
+ *   {@link IdentifierChain} window of the next `lookAhead` receive
+ *   identifiers, so messages mined out of order are still accepted.
+ * • Indices are stored with {@link Kaspeak.setConversationIndices} and
+ *   restored from the SDK state store.
+ * • With `ratchet` enabled, messages are sealed by the peer's
+ *   {@link Kaspeak.ratchetSession}; each message can then be decoded once.
+ *
+ * Obtain instances with {@link Kaspeak.conversation}.
+ */
+export class Conversation {
+	readonly peerPublicKey: Point;
+	readonly #sdk: Kaspeak;
+	readonly #keys: ConversationKeys;
+	readonly #ownPublicKey: Point;
+	readonly #peerHex: string;
+	readonly #receiveChain: IdentifierChain;
+	readonly #cipher: Uint8Array | MessageCipher;
+	#indices: ConversationIndices;
+
+	/** @internal Use {@link Kaspeak.conversation}. */
+	constructor(sdk: Kaspeak, peerPublicKey: Point, keys: ConversationKeys, cipher: Uint8Array | MessageCipher, options: ConversationOptions = {}) {
+		this.#sdk = sdk;
+		this.peerPublicKey = peerPublicKey;
+		this.#peerHex = bytesToHex(peerPublicKey.toCompressed());
+		this.#ownPublicKey = Point.fromHex(sdk.publicKey);
+		this.#keys = keys;
+		this.#cipher = cipher;
+		this.#indices = sdk.getConversationIndices(peerPublicKey);
+		this.#receiveChain = new IdentifierChain(peerPublicKey, this.#keys.chainKey, options.lookAhead ?? 20, this.#indices.receive);
+	}
+
+	/** Shared chain key of both identifier chains. */
+	get chainKey(): bigint {
+		return this.#keys.chainKey;
+	}
+
+	/** Last used send and receive indices; `0` means none yet. */
+	get indices(): ConversationIndices {
+		return { ...this.#indices };
+	}
+
+	/** Identifier the next {@link send} will use. */
+	get nextSendIdentifier(): Identifier {
+		return Identifier.fromChainKey(this.#keys.chainKey, this.#indices.send + 1, this.#ownPublicKey);
+	}
+
+	/** Receive identifiers currently matched by {@link accept}. */
+	get expectedIdentifiers(): string[] {
+		return this.#receiveChain.identifiers;
+	}
+
+	/**
+	 * Send `message` under the next send identifier, encrypted with the shared
+	 * secret (or the ratchet) when the message class requires it. The index is consumed before
+	 * the transaction is built, so a failed send never reuses an identifier
+	 * that may have reached the network.
+	 */
+	async send(message: BaseMessage, options: Omit<SendOptions, "identifier" | "key" | "recipient"> = {}): Promise<SendResult> {
+		const identifier = this.nextSendIdentifier;
+		this.#indices.send++;
+		this.persist();
+		return this.#sdk.send(message, { ...options, identifier, key: this.#cipher });
+	}
+
+	/**
+	 * Check whether `header` is the next message of this conversation and, if
+	 * so, advance the receive index.
+	 *
+	 * @returns The chain index of the message, or `null` when it does not
+	 *          belong to the conversation.
+	 */
+	accept(header: MessageHeader): number | null {
+		if (this.#receiveChain.indexOf(header.identifier.hex) === undefined) return null;
+		if (bytesToHex(Point.fromBytes(header.peer.publicKey).toCompressed()) !== this.#peerHex) return null;
+
+		const { index } = this.#receiveChain.consume(header.identifier.hex)!;
+		if (this.#receiveChain.lastIndex !== this.#indices.receive) {
+			this.#indices.receive = this.#receiveChain.lastIndex;
+			this.persist();
+		}
+		return index;
+	}
+
+	/** Decrypt and deserialize a message accepted by this conversation. */
+	async decode<T extends BaseMessage>(header: MessageHeader, data: Uint8Array): Promise<T> {
+		const message = await this.#sdk.decode<T>(header, data, this.#cipher);
+		// The ratchet state moved forward; get it saved with the indices.
+		if (!(this.#cipher instanceof Uint8Array)) this.persist();
+		return message;
+	}
+
+	private persist(): void {
+		this.#sdk.setConversationIndices(this.peerPublicKey, this.#indices);
+	}
+}
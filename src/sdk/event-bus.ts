@@ -42,12 +42,14 @@ export class EventBus<TEvents extends Record<string, any>> {
 	 * @typeParam K - The key of the event in `TEvents`.
 	 * @param event - The event name to subscribe to.
 	 * @param listener - Callback that receives the event payload.
+	 * @returns Function that removes the listener.
 	 */
-	on<K extends keyof TEvents>(event: K, listener: Listener<TEvents[K]>): void {
+	on<K extends keyof TEvents>(event: K, listener: Listener<TEvents[K]>): () => void {
 		if (!this.listeners[event]) {
 			this.listeners[event] = [];
 		}
 		this.listeners[event]!.push(listener);
+		return () => this.off(event, listener);
 	}
 
 	/**
@@ -57,13 +59,14 @@ export class EventBus<TEvents extends Record<string, any>> {
 	 * @typeParam K - The key of the event in `TEvents`.
 	 * @param event - The event name to subscribe to once.
 	 * @param listener - Callback that receives the event payload.
+	 * @returns Function that removes the listener before it fires.
 	 */
-	once<K extends keyof TEvents>(event: K, listener: Listener<TEvents[K]>): void {
+	once<K extends keyof TEvents>(event: K, listener: Listener<TEvents[K]>): () => void {
 		const onceWrapper = (data: TEvents[K]) => {
 			this.off(event, onceWrapper);
 			listener(data);
 		};
-		this.on(event, onceWrapper);
+		return this.on(event, onceWrapper);
 	}
 
 	/**
@@ -80,6 +83,13 @@ export class EventBus<TEvents extends Record<string, any>> {
 		this.listeners[event] = arr.filter((fn) => fn !== listener);
 	}
 
+	/**
+	 * Remove every listener of every event.
+	 */
+	clear(): void {
+		this.listeners = {};
+	}
+
 	/**
 	 * Emit an event, invoking all current listeners asynchronously
 	 * via `queueMicrotask`. Any listener errors are caught and printed
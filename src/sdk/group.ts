@@ -0,0 +1,398 @@
+import { XChaCha20Poly1305 } from "@stablelib/xchacha20poly1305";
+import { Identifier, Point, SecretIdentifier } from "../crypto";
+import { bytesToHex, bytesToInt, hexToBytes, intToHex, randomBytes, sha256FromString } from "../crypto/utils";
+import { BaseMessage, GroupMembershipMessage, GroupSenderKeyMessage, MessageHeader, UnknownMessage } from "../models";
+import { GROUP_EPOCH_GRACE_DAA, GROUP_MEMBERSHIP_MESSAGE_TYPE, GROUP_SENDER_KEY_MESSAGE_TYPE } from "./constants";
+import type { IdentifierHandler } from "./identifier-watcher";
+import type { Kaspeak, SendResult } from "./kaspeak";
+import type { MessageCipher } from "./message-serializer";
+import { logger } from "../utils/logger";
+
+const NONCE_SIZE = 24;
+/** Most sender keys buffered for member lists not seen yet. */
+const MAX_PENDING_SENDER_KEYS = 1_000;
+
+/**
+ * Persisted state of a {@link Group}.
+ */
+export interface GroupState {
+	epoch: number;
+	/** Compressed public keys (hex) of the members of `epoch`, sorted. */
+	members: string[];
+	/** Epoch → its members; absent in state saved by older versions. */
+	epochMembers?: Record<number, string[]>;
+	/** Epoch → DAA score (decimal) at which the next epoch replaced it. */
+	epochEnds?: Record<number, string>;
+	/** Group identity secret (hex); only present on the owner's side. */
+	ownerSecret?: string;
+	/** Member public key hex → epoch → sender key hex. */
+	senderKeys: Record<string, Record<number, string>>;
+	/** Last epoch our own sender key was distributed for. */
+	distributedEpoch: number;
+}
+
+/**
+ * Group
+ *
+ * Group chat keyed by a {@link SecretIdentifier} whose public point is the
+ * group id. The owner holds the secret and signs every member list with it.
+ *
+ * Keys
+ * ----
+ *   - Every member has a random sender key per epoch and sends it to each
+ *     other member pairwise ({@link GroupSenderKeyMessage}) before its first
+ *     broadcast of the epoch.
+ *   - A broadcast is one transaction under the group id, encrypted with the
+ *     sender's key: `epoch u32 | nonce(24) | ciphertext`.
+ *   - Adding or removing members starts a new epoch. Members only accept a
+ *     member list signed by the group identity ({@link GroupMembershipMessage}),
+ *     and removed members never receive the new sender keys. Broadcasts are
+ *     checked against the members of their own epoch, so earlier history
+ *     stays readable after a member leaves.
+ *   - A broadcast under an earlier epoch is only accepted from a block at
+ *     most `GROUP_EPOCH_GRACE_DAA` after that epoch ended, which covers
+ *     senders that had not seen the new member list yet. Later ones are
+ *     rejected, so a removed member cannot keep posting with their old key.
+ *   - Member lists that do not include us are ignored unless the group is
+ *     already known, so nobody can plant groups we never joined.
+ *   - Control messages use an identifier only the pair can compute, so other
+ *     nodes skip them without trying to decrypt.
+ *
+ * Obtain instances with {@link Kaspeak.createGroup} or {@link Kaspeak.group}.
+ */
+export class Group {
+	readonly id: string;
+	readonly #sdk: Kaspeak;
+	readonly #self: string;
+	readonly #state: GroupState;
+	readonly #onChange: (group: Group) => void;
+	readonly #controlSettled: () => Promise<void>;
+
+	/** @internal Use {@link Kaspeak.createGroup}. */
+	constructor(sdk: Kaspeak, id: string, state: GroupState, onChange: (group: Group) => void, controlSettled: () => Promise<void> = async () => {}) {
+		this.#sdk = sdk;
+		this.#self = toHex(sdk.publicKey);
+		this.id = id;
+		this.#state = state;
+		this.#state.epochMembers ??= { [state.epoch]: state.members };
+		this.#onChange = onChange;
+		this.#controlSettled = controlSettled;
+	}
+
+	get epoch(): number {
+		return this.#state.epoch;
+	}
+
+	get members(): string[] {
+		return [...this.#state.members];
+	}
+
+	get isOwner(): boolean {
+		return this.#state.ownerSecret !== undefined;
+	}
+
+	/** Whether this SDK instance is a member of the current epoch. */
+	get isMember(): boolean {
+		return this.#state.members.includes(this.#self);
+	}
+
+	/**
+	 * Whether `member` belonged to the group in `epoch`. Epochs from before the
+	 * member history was kept fall back to the current members.
+	 *
+	 * @internal
+	 */
+	wasMember(member: string, epoch: number): boolean {
+		return (this.#state.epochMembers?.[epoch] ?? this.#state.members).includes(member);
+	}
+
+	/**
+	 * Broadcast `message` to the group in one transaction. The first broadcast
+	 * of an epoch sends our sender key to every other member first.
+	 *
+	 * @throws Error if we are not a member of the current epoch.
+	 */
+	async send(message: BaseMessage): Promise<SendResult> {
+		if (!this.isMember) throw new Error(`Not a member of group ${this.id}`);
+		await this.distributeSenderKey();
+		return this.#sdk.send(message, { identifier: Identifier.fromHex(this.id), key: this.cipher(this.#self) });
+	}
+
+	/**
+	 * Decrypt and deserialize a broadcast of this group. Waits for control
+	 * messages still being processed, since a sender key usually arrives in the
+	 * same block as the first broadcast it opens.
+	 */
+	async decode<T extends BaseMessage>(header: MessageHeader, data: Uint8Array): Promise<T> {
+		await this.#controlSettled();
+		return this.#sdk.decode<T>(header, data, this.cipher(toHex(header.peer.publicKey), header.blockMeta.daaScore));
+	}
+
+	/**
+	 * Deliver every broadcast of this group to `handler`.
+	 *
+	 * @returns Function that removes the handler.
+	 */
+	onMessage(handler: IdentifierHandler): () => void {
+		return this.#sdk.watchIdentifier(this.id, handler);
+	}
+
+	/** Owner only: add members and start a new epoch. */
+	async addMembers(publicKeys: (Point | string | Uint8Array)[]): Promise<void> {
+		const added = publicKeys.map(toHex);
+		await this.rekey([...this.#state.members, ...added]);
+	}
+
+	/** Owner only: remove members and start a new epoch they cannot read. */
+	async removeMembers(publicKeys: (Point | string | Uint8Array)[]): Promise<void> {
+		const removed = new Set(publicKeys.map(toHex));
+		await this.rekey(this.#state.members.filter((m) => !removed.has(m)));
+	}
+
+	/** @internal Snapshot for the state store. */
+	toJSON(): GroupState {
+		return structuredClone(this.#state);
+	}
+
+	/**
+	 * Owner only: sign the member list of the next epoch and send it to every
+	 * member. Also used for the first epoch.
+	 *
+	 * @internal
+	 */
+	async rekey(members: string[]): Promise<void> {
+		if (!this.#state.ownerSecret) throw new Error(`Only the owner can change the members of group ${this.id}`);
+		const identity = SecretIdentifier.fromSecret(this.#state.ownerSecret);
+		const list = [...new Set([...members, this.#self])].sort();
+		const epoch = this.#state.epoch + 1;
+		const signature = await identity.sign(GroupMembershipMessage.signingDigest(this.id, epoch, list));
+
+		this.setMembers(epoch, list, this.#sdk.cursor?.daaScore);
+
+		const membership = new GroupMembershipMessage(this.id, epoch, list, signature);
+		for (const member of list) {
+			if (member === this.#self) continue;
+			await this.#sdk.send(membership, { recipient: member, identifier: await controlIdentifier(this.#sdk, member, member) });
+		}
+	}
+
+	/**
+	 * Apply a verified member list.
+	 *
+	 * @param daaScore DAA score of the block carrying the list; the current epoch ends there.
+	 * @internal
+	 */
+	applyMembership(epoch: number, members: string[], daaScore: bigint): void {
+		if (epoch <= this.#state.epoch) return;
+		this.setMembers(epoch, members, daaScore);
+	}
+
+	/** @internal Store a member's sender key. */
+	addSenderKey(member: string, epoch: number, key: Uint8Array): void {
+		(this.#state.senderKeys[member] ??= {})[epoch] = bytesToHex(key);
+		this.#onChange(this);
+	}
+
+	/** Install the members of `epoch`, ending the current one at `endedAt` if it is known. */
+	private setMembers(epoch: number, members: string[], endedAt: bigint | undefined): void {
+		if (endedAt !== undefined && this.#state.epoch > 0) {
+			this.#state.epochEnds = { ...this.#state.epochEnds, [this.#state.epoch]: endedAt.toString() };
+		}
+		this.#state.epoch = epoch;
+		this.#state.members = members;
+		this.#state.epochMembers = { ...this.#state.epochMembers, [epoch]: members };
+		this.#onChange(this);
+	}
+
+	private async distributeSenderKey(): Promise<void> {
+		const { epoch, members } = this.#state;
+		if (this.#state.distributedEpoch === epoch) return;
+		const key = randomBytes(32);
+		this.addSenderKey(this.#self, epoch, key);
+		const message = new GroupSenderKeyMessage(this.id, epoch, key);
+		for (const member of members) {
+			if (member === this.#self) continue;
+			await this.#sdk.send(message, { recipient: member, identifier: await controlIdentifier(this.#sdk, member, member) });
+		}
+		this.#state.distributedEpoch = epoch;
+		this.#onChange(this);
+	}
+
+	/**
+	 * Cipher sealing with our current sender key, or opening with `sender`'s
+	 * key of the message epoch.
+	 *
+	 * @param daaScore DAA score of the block carrying the message to open.
+	 */
+	private cipher(sender: string, daaScore?: bigint): MessageCipher {
+		const state = this.#state;
+		const wasMember = (epoch: number) => this.wasMember(sender, epoch);
+		// An earlier epoch is open until its end plus the grace window; without a recorded end it is closed.
+		const isOpen = (epoch: number) => {
+			if (epoch >= state.epoch) return true;
+			const end = state.epochEnds?.[epoch];
+			return end !== undefined && daaScore !== undefined && daaScore <= BigInt(end) + BigInt(GROUP_EPOCH_GRACE_DAA);
+		};
+		return {
+			overhead: 4 + NONCE_SIZE + 16,
+			seal(plaintext) {
+				const key = state.senderKeys[sender]?.[state.epoch];
+				if (!key) throw new Error("No sender key for the current epoch");
+				const nonce = randomBytes(NONCE_SIZE);
+				const sealed = new XChaCha20Poly1305(hexToBytes(key)).seal(nonce, plaintext);
+				const out = new Uint8Array(4 + NONCE_SIZE + sealed.length);
+				new DataView(out.buffer).setUint32(0, state.epoch);
+				out.set(nonce, 4);
+				out.set(sealed, 4 + NONCE_SIZE);
+				return out;
+			},
+			open(data) {
+				if (data.length < 4 + NONCE_SIZE) return null;
+				const epoch = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0);
+				// Broadcasts of earlier epochs stay readable for the members of that epoch.
+				if (!wasMember(epoch)) return null;
+				if (!isOpen(epoch)) {
+					logger.debug(`Rejected group broadcast from ${sender} under epoch ${epoch}, which has ended`);
+					return null;
+				}
+				const key = state.senderKeys[sender]?.[epoch];
+				if (!key) return null;
+				return new XChaCha20Poly1305(hexToBytes(key)).open(data.subarray(4, 4 + NONCE_SIZE), data.subarray(4 + NONCE_SIZE));
+			}
+		};
+	}
+}
+
+/**
+ * GroupManager keeps the groups of one {@link Kaspeak} instance and handles
+ * the group control messages routed to it by the SDK.
+ */
+export class GroupManager {
+	private groups = new Map<string, Group>();
+	/** Sender keys that arrived before the member list naming their sender. */
+	private pendingKeys: { id: string; sender: string; epoch: number; key: Uint8Array }[] = [];
+	/** Control messages still being decoded. */
+	private inFlight = new Set<Promise<void>>();
+
+	/**
+	 * @param sdk      - Owning SDK instance.
+	 * @param onChange - Called whenever a group changes, e.g. to persist it.
+	 */
+	constructor(
+		private readonly sdk: Kaspeak,
+		private readonly onChange: (group: Group) => void
+	) {}
+
+	/** Create a group owned by a fresh identity and send the member list. */
+	async create(members: (Point | string | Uint8Array)[]): Promise<Group> {
+		const identity = SecretIdentifier.random();
+		const group = this.add(identity.hex, {
+			epoch: 0,
+			members: [],
+			ownerSecret: intToHex(identity.secret, 32),
+			senderKeys: {},
+			distributedEpoch: 0
+		});
+		await group.rekey(members.map(toHex));
+		return group;
+	}
+
+	get(id: string): Group | undefined {
+		return this.groups.get(id.toLowerCase());
+	}
+
+	list(): Group[] {
+		return [...this.groups.values()];
+	}
+
+	/** Handle a {@link GroupMembershipMessage} or {@link GroupSenderKeyMessage}. */
+	handle(header: MessageHeader, data: Uint8Array): Promise<void> {
+		const task = this.process(header, data).finally(() => this.inFlight.delete(task));
+		this.inFlight.add(task);
+		return task;
+	}
+
+	/** Resolves once every control message received so far has been handled. */
+	async settled(): Promise<void> {
+		await Promise.allSettled([...this.inFlight]);
+	}
+
+	private async process(header: MessageHeader, data: Uint8Array): Promise<void> {
+		const sender = toHex(header.peer.publicKey);
+		if (header.identifier.hex !== (await controlIdentifier(this.sdk, sender, this.sdk.publicKey)).hex) return;
+		const decoded = await this.sdk.decode(header, data, (await this.sdk.deriveConversationKeysAsync(sender)).secret);
+		if (decoded instanceof UnknownMessage) {
+			logger.debug(`Group message from ${sender} could not be decoded: ${decoded.errorDesc}`);
+			return;
+		}
+
+		if (header.type === GROUP_MEMBERSHIP_MESSAGE_TYPE) {
+			const { group: id, epoch, members, signature } = decoded as GroupMembershipMessage;
+			const digest = GroupMembershipMessage.signingDigest(id, epoch, members);
+			if (!(await Identifier.fromHex(id).verify(signature, digest))) {
+				logger.warn(`Rejected group ${id} member list with an invalid signature`);
+				return;
+			}
+			const existing = this.get(id);
+			if (!existing && !members.includes(toHex(this.sdk.publicKey))) {
+				logger.debug(`Ignored group ${id} member list that does not include us`);
+				return;
+			}
+			const group = existing ?? this.add(id, { epoch: 0, members: [], senderKeys: {}, distributedEpoch: 0 });
+			group.applyMembership(epoch, members, header.blockMeta.daaScore);
+			this.applyPendingKeys(group);
+		} else if (header.type === GROUP_SENDER_KEY_MESSAGE_TYPE) {
+			const { group: id, epoch, key } = decoded as GroupSenderKeyMessage;
+			const group = this.get(id);
+			if (group && group.epoch >= epoch) {
+				if (group.wasMember(sender, epoch)) group.addSenderKey(sender, epoch, key);
+				else logger.debug(`Ignored group ${id} sender key from non-member ${sender}`);
+				return;
+			}
+			// The member list of this epoch has not arrived yet.
+			this.pendingKeys.push({ id, sender, epoch, key });
+			if (this.pendingKeys.length > MAX_PENDING_SENDER_KEYS) this.pendingKeys.shift();
+		}
+	}
+
+	/** Restore groups saved with {@link toJSON}. */
+	load(states: Record<string, GroupState>): void {
+		for (const [id, state] of Object.entries(states)) this.add(id, state);
+	}
+
+	toJSON(): Record<string, GroupState> {
+		return Object.fromEntries([...this.groups].map(([id, group]) => [id, group.toJSON()]));
+	}
+
+	clear(): void {
+		this.groups.clear();
+		this.pendingKeys = [];
+		this.inFlight.clear();
+	}
+
+	private applyPendingKeys(group: Group): void {
+		this.pendingKeys = this.pendingKeys.filter(({ id, sender, epoch, key }) => {
+			if (id !== group.id || epoch > group.epoch) return true;
+			if (group.wasMember(sender, epoch)) group.addSenderKey(sender, epoch, key);
+			return false;
+		});
+	}
+
+	private add(id: string, state: GroupState): Group {
+		const group = new Group(this.sdk, id, state, this.onChange, () => this.settled());
+		this.groups.set(id, group);
+		return group;
+	}
+}
+
+function toHex(publicKey: Point | string | Uint8Array): string {
+	const point = publicKey instanceof Point ? publicKey : typeof publicKey === "string" ? Point.fromHex(publicKey) : Point.fromBytes(publicKey);
+	return bytesToHex(point.toCompressed());
+}
+
+/** Identifier of group control messages between us and `peer`, addressed to `recipient`. */
+async function controlIdentifier(sdk: Kaspeak, peer: string, recipient: Point | string | Uint8Array): Promise<Identifier> {
+	const { secret } = await sdk.deriveConversationKeysAsync(peer);
+	const key = bytesToInt(sha256FromString(`kaspeak/group-control:${bytesToHex(secret)}`));
+	return Identifier.fromChainKey(key, 1, recipient);
+}
@@ -0,0 +1,252 @@
+import { Identifier, Point } from "../crypto";
+import type { MessageHeader } from "../models";
+import { logger } from "../utils/logger";
+
+/**
+ * Callback receiving messages whose identifier matches a watch.
+ *
+ * @param index - Chain index of the identifier for {@link IdentifierWatcher.watchChain}
+ *                watches; `undefined` otherwise.
+ */
+export type IdentifierHandler = (header: MessageHeader, rawData: Uint8Array, index?: number) => void | Promise<void>;
+
+/**
+ * Predicate deciding whether a message identifier is of interest.
+ */
+export type IdentifierPredicate = (identifier: Identifier) => boolean;
+
+/**
+ * Handle of an active {@link IdentifierWatcher.watchChain} subscription.
+ */
+export interface ChainWatch {
+	/** Highest chain index received so far; `0` means none. */
+	readonly lastIndex: number;
+	/** Identifiers currently expected. */
+	readonly identifiers: string[];
+	unsubscribe(): void;
+}
+
+/**
+ * IdentifierChain
+ *
+ * Sliding window over `ID(i) = BasePoint · chainKey^i`.
+ *
+ * • The window holds the `size` indices after the highest consumed one.
+ * • Consuming an index moves the window forward; skipped indices stay in it
+ *   until they fall a full window behind, so out-of-order arrivals still match.
+ * • New identifiers are derived with one `next()` step each.
+ */
+export class IdentifierChain {
+	#window = new Map<string, number>();
+	#end: Identifier | null = null;
+	#endIndex: number;
+	#lastIndex: number;
+
+	/**
+	 * @param basePoint - Point the chain starts from.
+	 * @param chainKey  - Shared chain multiplier.
+	 * @param size      - Number of indices expected ahead of the last consumed one.
+	 * @param lastIndex - Highest index already consumed (default `0`).
+	 */
+	constructor(
+		readonly basePoint: Point,
+		readonly chainKey: bigint,
+		readonly size: number,
+		lastIndex = 0
+	) {
+		if (size < 1) throw new RangeError("window size must be ≥ 1");
+		if (lastIndex < 0) throw new RangeError("lastIndex must be ≥ 0");
+		this.#lastIndex = lastIndex;
+		this.#endIndex = lastIndex;
+		this.extend();
+	}
+
+	/** Highest consumed index; `0` means none. */
+	get lastIndex(): number {
+		return this.#lastIndex;
+	}
+
+	/** Expected identifier hex values. */
+	get identifiers(): string[] {
+		return [...this.#window.keys()];
+	}
+
+	/** Chain index of `hex`, if it is in the window. */
+	indexOf(hex: string): number | undefined {
+		return this.#window.get(hex);
+	}
+
+	/**
+	 * Remove `hex` from the window and move the window forward when it is the
+	 * highest index so far.
+	 *
+	 * @returns The consumed index and the identifiers that entered and left the
+	 *          window, or `null` when `hex` is not expected.
+	 */
+	consume(hex: string): { index: number; added: string[]; removed: string[] } | null {
+		const index = this.#window.get(hex);
+		if (index === undefined) return null;
+		this.#window.delete(hex);
+		const removed = [hex];
+		if (index <= this.#lastIndex) return { index, added: [], removed };
+
+		this.#lastIndex = index;
+		for (const [h, i] of this.#window) {
+			if (i > index - this.size) continue;
+			this.#window.delete(h);
+			removed.push(h);
+		}
+		return { index, added: this.extend(), removed };
+	}
+
+	private extend(): string[] {
+		const added: string[] = [];
+		while (this.#endIndex < this.#lastIndex + this.size) {
+			const index = this.#endIndex + 1;
+			this.#end = this.#end ? this.#end.next(this.chainKey) : Identifier.fromChainKey(this.chainKey, index, this.basePoint);
+			this.#endIndex = index;
+			this.#window.set(this.#end.hex, index);
+			added.push(this.#end.hex);
+		}
+		return added;
+	}
+}
+
+/**
+ * Subscriber registered for one exact identifier.
+ */
+interface ExactWatch {
+	handler: IdentifierHandler;
+	chain?: IdentifierChain;
+}
+
+/**
+ * Subscriber registered with a predicate.
+ */
+interface PredicateWatch {
+	predicate: IdentifierPredicate;
+	handler: IdentifierHandler;
+}
+
+/**
+ * IdentifierWatcher routes incoming messages by identifier.
+ *
+ * • Exact identifiers, including every identifier in a chain window, live in
+ *   one hash map, so matching costs one lookup per message regardless of the
+ *   number of watches.
+ * • Predicate watches run for every message; keep them few and cheap.
+ * • Handlers run in a microtask; their errors are logged.
+ */
+export class IdentifierWatcher {
+	private exact = new Map<string, Set<ExactWatch>>();
+	private predicates = new Set<PredicateWatch>();
+
+	/**
+	 * Deliver messages carrying `identifier` (object or hex) to `handler`.
+	 *
+	 * @returns Function that removes the watch.
+	 */
+	watchIdentifier(identifier: Identifier | string, handler: IdentifierHandler): () => void {
+		const hex = typeof identifier === "string" ? identifier.toLowerCase() : identifier.hex;
+		const watch: ExactWatch = { handler };
+		this.add(hex, watch);
+		return () => this.remove(hex, watch);
+	}
+
+	/**
+	 * Deliver messages whose identifier satisfies `predicate` to `handler`.
+	 *
+	 * @returns Function that removes the watch.
+	 */
+	watchPredicate(predicate: IdentifierPredicate, handler: IdentifierHandler): () => void {
+		const watch: PredicateWatch = { predicate, handler };
+		this.predicates.add(watch);
+		return () => this.predicates.delete(watch);
+	}
+
+	/**
+	 * Deliver messages whose identifier is among the next `window` identifiers
+	 * of the chain `basePoint · chainKey^i` to `handler`, moving the window as
+	 * messages arrive.
+	 *
+	 * @param lastIndex - Highest index already received (default `0`).
+	 */
+	watchChain(basePoint: Point, chainKey: bigint, window: number, handler: IdentifierHandler, lastIndex = 0): ChainWatch {
+		const chain = new IdentifierChain(basePoint, chainKey, window, lastIndex);
+		const watch: ExactWatch = { handler, chain };
+		for (const hex of chain.identifiers) this.add(hex, watch);
+		return {
+			get lastIndex() {
+				return chain.lastIndex;
+			},
+			get identifiers() {
+				return chain.identifiers;
+			},
+			unsubscribe: () => {
+				for (const hex of chain.identifiers) this.remove(hex, watch);
+			}
+		};
+	}
+
+	/**
+	 * Hand a message to every matching watch.
+	 *
+	 * @returns `true` if at least one watch matched.
+	 */
+	dispatch(header: MessageHeader, rawData: Uint8Array): boolean {
+		const hex = header.identifier.hex;
+		let matched = false;
+		for (const watch of [...(this.exact.get(hex) ?? [])]) {
+			let index: number | undefined;
+			if (watch.chain) {
+				const moved = watch.chain.consume(hex);
+				if (!moved) continue;
+				index = moved.index;
+				for (const h of moved.removed) this.remove(h, watch);
+				for (const h of moved.added) this.add(h, watch);
+			}
+			this.invoke(watch.handler, header, rawData, index);
+			matched = true;
+		}
+		for (const { predicate, handler } of this.predicates) {
+			if (!predicate(header.identifier)) continue;
+			this.invoke(handler, header, rawData);
+			matched = true;
+		}
+		return matched;
+	}
+
+	/** Number of identifiers currently matched by hash lookup. */
+	get size(): number {
+		return this.exact.size;
+	}
+
+	/** Remove every watch. */
+	clear(): void {
+		this.exact.clear();
+		this.predicates.clear();
+	}
+
+	private add(hex: string, watch: ExactWatch): void {
+		let watches = this.exact.get(hex);
+		if (!watches) this.exact.set(hex, (watches = new Set()));
+		watches.add(watch);
+	}
+
+	private remove(hex: string, watch: ExactWatch): void {
+		const watches = this.exact.get(hex);
+		if (!watches) return;
+		watches.delete(watch);
+		if (watches.size === 0) this.exact.delete(hex);
+	}
+
+	private invoke(handler: IdentifierHandler, header: MessageHeader, rawData: Uint8Array, index?: number): void {
+		queueMicrotask(() => {
+			try {
+				void Promise.resolve(handler(header, rawData, index)).catch((error) => logger.error("Identifier handler error:", error));
+			} catch (error) {
+				logger.error("Identifier handler error:", error);
+			}
+		});
+	}
+}
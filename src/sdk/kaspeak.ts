@@ -1,78 +1,438 @@
+import { hkdf } from "@noble/hashes/hkdf";
+import { sha256 } from "@noble/hashes/sha2";
 import { ensureKaspaInitialized, KaspaWasm } from "../wasm/kaspa";
 import { ensureZstdInitialized } from "../utils/compression";
-import { ITransaction, Transaction, PublicKey as KaspaPublicKey } from "kaspa-wasm";
+import { IBlock, ITransaction, Transaction, PublicKey as KaspaPublicKey } from "kaspa-wasm";
 import { LimitedHashSet } from "../utils/limited-hash-set";
 import { EventBus } from "./event-bus";
-import { BaseMessage, MessageHeader, Payload, BlockMeta } from "../models";
+import {
+	BaseMessage,
+	MessageHeader,
+	Payload,
+	PayloadFlag,
+	BlockMeta,
+	Chunk,
+	SealedEnvelope,
+	SEALED_ENVELOPE_OVERHEAD,
+	GroupMembershipMessage,
+	GroupSenderKeyMessage,
+	KeyShareMessage,
+	UnknownMessage
+} from "../models";
 import { MessageClass, MessageRegistry, WorkerFn } from "./message-registry";
-import { MessageSerializer } from "./message-serializer";
-import { hexToBytes, hexToInt, bytesToInt, sha256FromBytes } from "../crypto/utils";
-import { SecretIdentifier, Identifier, Secp256k1, Point } from "../crypto";
-import { HEADER_SIZE } from "./constants";
+import { EncodeOptions, MessageCipher, MessageSerializer } from "./message-serializer";
+import { ChunkAssembler } from "./chunk-assembler";
+import { bytesToHex, hexToInt, bytesToInt, sha256FromBytes, sha256FromString } from "../crypto/utils";
+import {
+	SecretIdentifier,
+	Identifier,
+	Secp256k1,
+	Point,
+	Peer,
+	Schnorr,
+	RatchetSession,
+	RatchetState,
+	KeySigner,
+	Signer,
+	HDWallet,
+	Keystore,
+	KeystoreJSON,
+	Shamir,
+	SecretShare
+} from "../crypto";
+import {
+	HEADER_SIZE,
+	PROTOCOL_VERSION,
+	MAX_DATA_SIZE,
+	CHUNK_HEADER_SIZE,
+	CHUNK_MESSAGE_TYPE,
+	CHUNK_UTXO_WAIT_MS,
+	RESERVED_MESSAGE_TYPE_MIN,
+	STATE_FLUSH_INTERVAL_MS,
+	DEFAULT_CONFIRMATION_DEPTH,
+	DEFAULT_CONFIRMATION_EXPIRY,
+	GROUP_MEMBERSHIP_MESSAGE_TYPE,
+	GROUP_SENDER_KEY_MESSAGE_TYPE,
+	SEALED_MESSAGE_TYPE,
+	KEY_SHARE_MESSAGE_TYPE
+} from "./constants";
 import { logger } from "../utils/logger";
+import { EncryptedStateStore, MemoryStateStore, StateStore } from "../store";
+import type { KaspaTransport, UtxoChange, UtxoInfo, WalletBalance } from "../transport";
+import { ReconnectAttempt, ReconnectOptions, ReconnectSupervisor } from "./reconnect-supervisor";
+import { ConfirmationTracker, TransactionStatus } from "./confirmation-tracker";
+import { Conversation, ConversationOptions } from "./conversation";
+import { ChainWatch, IdentifierHandler, IdentifierPredicate, IdentifierWatcher } from "./identifier-watcher";
+import { Group, GroupManager, GroupState } from "./group";
 
 export interface KaspeakEvents {
 	KaspeakMessageReceived: { data: Uint8Array; header: MessageHeader };
+	syncProgress: SyncProgress;
+	connected: ConnectionInfo;
+	disconnected: ConnectionInfo;
+	reconnecting: ReconnectAttempt;
+	transactionStatus: TransactionStatus;
+	groupUpdated: Group;
+	/** Funds arrived at, left or matured on the funding addresses. */
+	utxoChanged: UtxoChange;
+	/** A contact sent us a {@link Shamir} share: theirs to keep, or ours to recover with. */
+	keyShareReceived: { from: string; share: SecretShare; header: MessageHeader };
 	error: string;
 }
 
+export interface ConnectionInfo {
+	networkId: string;
+	url?: string;
+}
+
+export interface SyncOptions {
+	/** Hash of the first block to scan. */
+	fromBlockHash?: string;
+	/**
+	 * Blocks with a lower DAA score are skipped. Without `fromBlockHash` the
+	 * scan starts at the pruning point, so it may walk a long way to reach it.
+	 */
+	fromDaaScore?: bigint;
+	/**
+	 * `true` (default) – keep paging until the node returns no newer blocks.
+	 * `false` – stop once the virtual DAA score observed at start is reached.
+	 */
+	toTip?: boolean;
+}
+
+export interface SyncProgress {
+	processedBlocks: number;
+	/** DAA score of the last scanned block. */
+	daaScore: bigint;
+	/** Virtual DAA score of the node when the sync started. */
+	targetDaaScore: bigint;
+	done: boolean;
+}
+
+export interface SyncResult {
+	processedBlocks: number;
+	lastBlockHash: string;
+	lastDaaScore: bigint;
+}
+
+export interface KaspeakOptions {
+	/**
+	 * Where the sync cursor, the deduplication set and conversation indices are
+	 * persisted. Ratchet sessions and group keys are sealed under a key derived
+	 * from the identity key before they are written. Defaults to a
+	 * {@link MemoryStateStore}.
+	 */
+	stateStore?: StateStore;
+	/**
+	 * Read ratchet sessions and group keys that an older version stored in
+	 * plaintext, sealing them in place (default `false`). Set it for one run
+	 * after upgrading; without it such entries fail to load.
+	 */
+	migratePlaintextState?: boolean;
+	/**
+	 * Network access. Defaults to {@link KaspaWasm} talking to a real node;
+	 * pass a {@link SimulatedNetwork} transport to run without a network.
+	 */
+	transport?: KaspaTransport;
+	/**
+	 * Reconnection policy applied after `connect()` when the connection drops.
+	 * Pass `false` to disable automatic reconnection.
+	 */
+	reconnect?: ReconnectOptions | false;
+	/**
+	 * Track inclusion, acceptance and confirmation of sent and received
+	 * messages and report them through the `transactionStatus` event.
+	 * Disabled when omitted.
+	 */
+	confirmations?: ConfirmationOptions;
+	/**
+	 * Payload format of sent messages: `1` (default) or `2`, with flags, a
+	 * varint data length, binary signing and self-describing codecs (the
+	 * class `codec` choice only applies to v2). Both carry at most
+	 * `MAX_DATA_SIZE` bytes of data. Both are always received, so
+	 * switch to `2` once every client on the prefix understands it.
+	 */
+	payloadVersion?: 1 | 2;
+	/**
+	 * Try to open every sealed message on the prefix, and scan sealed and
+	 * chunked payloads for stealth first contacts. Each attempt costs one
+	 * ECDH with the signer, whether or not the message is ours. Defaults to
+	 * `true` for signers with `getSharedSecretSync` (a local key) and to
+	 * `false` otherwise, so a wallet or HSM is not asked for every sealed
+	 * payload on the prefix.
+	 */
+	openSealed?: boolean;
+	/**
+	 * Signer paying the fees, when the funding wallet is kept apart from the
+	 * messaging identity. Defaults to the identity key itself. All its
+	 * `fundingPublicKeys` are watched and spent from.
+	 */
+	funding?: Signer;
+}
+
+export interface MnemonicOptions extends KaspeakOptions {
+	/** BIP39 passphrase (default empty). */
+	passphrase?: string;
+	/** BIP44 account (default 0). */
+	account?: number;
+	/**
+	 * Current funding address index (default 0). Raising it rotates the
+	 * funding address; earlier ones stay watched and spendable.
+	 */
+	fundingIndex?: number;
+}
+
+export interface ConfirmationOptions {
+	/**
+	 * DAA score distance from the accepting chain block after which a
+	 * transaction is confirmed (default 100, about 10 s at 10 BPS).
+	 */
+	depth?: number;
+	/**
+	 * Hold back `KaspeakMessageReceived` and workers until the message
+	 * transaction is confirmed (default `false`).
+	 */
+	deferDelivery?: boolean;
+	/**
+	 * DAA score after submission, inclusion or orphaning within which a
+	 * transaction must be accepted (default 6000, about 10 min at 10 BPS).
+	 * Past it the transaction is `expired` and a deferred message is dropped.
+	 * `0` disables expiry.
+	 */
+	expiry?: number;
+}
+
+/** Last block processed by the SDK on a network. */
+export interface SyncCursor {
+	hash: string;
+	daaScore: bigint;
+}
+
+/** Last used identifier indices of a conversation; `0` means none yet. */
+export interface ConversationIndices {
+	send: number;
+	receive: number;
+}
+
+/**
+ * Secrets of our conversations, as kept in a {@link Keystore}: ratchet
+ * sessions, groups (owner secrets and sender keys) and conversation indices.
+ */
+export interface ConversationSecrets {
+	ratchets: Record<string, RatchetState>;
+	groups: Record<string, GroupState>;
+	conversations: Record<string, ConversationIndices>;
+}
+
 export interface ConversationKeys {
 	secret: Uint8Array;
 	chainKey: bigint;
 }
 
+export interface SendOptions {
+	/** Recipient public key; used to derive the encryption key when the message requires encryption. */
+	recipient?: Point | string | Uint8Array;
+	/** Identifier written into the payload. A random {@link SecretIdentifier} is used when omitted. */
+	identifier?: SecretIdentifier | Identifier;
+	/** Explicit encryption key or cipher; takes precedence over `recipient`. */
+	key?: Uint8Array | MessageCipher;
+	/** Maximum data bytes per chunk when the message has to be split. */
+	chunkSize?: number;
+	/**
+	 * First contact: use an {@link Identifier.stealth} identifier that only
+	 * `recipient` (required) can recognize, replacing `identifier`. Implies `sealed`.
+	 */
+	stealth?: boolean;
+	/**
+	 * Hide our public key from everyone but `recipient` (required): the payload
+	 * is signed by a one-time key and the message travels in a
+	 * {@link SealedEnvelope}. The funding address stays visible.
+	 */
+	sealed?: boolean;
+}
+
+/**
+ * Callback receiving stealth first-contact messages addressed to us.
+ */
+export type FirstContactHandler = (header: MessageHeader, rawData: Uint8Array) => void | Promise<void>;
+
+export interface SendResult {
+	/** Id of the transaction carrying the message (the last part of a chunked message). */
+	txid: string;
+	/** Ids of every transaction sent, in chunk order. */
+	txids: string[];
+	/** Total size of the signed payloads in bytes (headers + data). */
+	payloadSize: number;
+	/** Total fee paid by the transactions, in sompi. */
+	feeSompi: bigint;
+}
+
 export class Kaspeak {
-	private kaspa!: KaspaWasm;
+	private kaspa!: KaspaTransport;
 
 	/* Wallet */
-	readonly #privateKey: bigint;
+	readonly #signer: Signer;
+	readonly #funding: Signer;
 	#publicKey!: Uint8Array;
 	#publicKeyHex!: string;
 	#address!: string;
+	/** Every funding address, the current one ({@link address}) first. */
+	#fundingAddresses: string[] = [];
+	#identityAddress!: string;
 
 	/* Settings */
 	private readonly prefixBytes: Uint8Array;
 	private readonly prefixString: string;
 	private readonly knownTxIds = new LimitedHashSet<string>(5_000);
+	/** Stealth identifiers found by the first-contact scanner. */
+	private readonly firstContactIds = new LimitedHashSet<string>(1_000);
+	private readonly firstContactHandlers = new Set<FirstContactHandler>();
 	private readonly eventBus = new EventBus<KaspeakEvents>();
 	private readonly messageRegistry = new MessageRegistry();
+	private readonly chunkAssembler = new ChunkAssembler();
+	private readonly stateStore: StateStore;
+	/** `stateStore` for ratchet and group secrets, which are never stored in plaintext. */
+	private secretStore!: StateStore;
+	private readonly reconnectOptions: ReconnectOptions | false;
+	private supervisor: ReconnectSupervisor | null = null;
+	private readonly confirmationTracker: ConfirmationTracker | null = null;
+	private readonly conversations = new Map<string, Conversation>();
+	private readonly identifierWatcher = new IdentifierWatcher();
+	private readonly groupManager = new GroupManager(this, (group) => {
+		this.eventBus.emit("groupUpdated", group);
+		this.scheduleStateFlush();
+	});
 
 	/* State */
-	#balance = 0;
-	#utxoCount = 0;
+	#walletBalance: WalletBalance = { mature: 0n, pending: 0n, outgoing: 0n, utxoCount: 0 };
 	#prefixFilterEnabled = true;
 	#signatureVerificationEnabled = true;
 	#priorityFeeSompi: bigint = 0n;
+	#cursor: SyncCursor | null = null;
+	#conversationIndices: Record<string, ConversationIndices> = {};
+	#ratchetStates: Record<string, RatchetState> = {};
+	#ratchetSessions = new Map<string, RatchetSession>();
+	/** Peer public key hex → conversation keys, so the signer computes each ECDH once. */
+	#conversationKeys = new Map<string, ConversationKeys | Promise<ConversationKeys>>();
+	#syncing = 0;
+	#stateFlushTimer: ReturnType<typeof setTimeout> | undefined;
+	#online = false;
+	#disposed = false;
+	#deferDelivery = false;
+	#migratePlaintextState = false;
+	#openSealed: boolean;
+	#payloadVersion: number = PROTOCOL_VERSION;
+	#unsubscribeBlocks: (() => void) | null = null;
+	#unsubscribeChain: (() => void) | null = null;
+	#unsubscribeConnection: (() => void) | null = null;
+	#unsubscribeUtxo: (() => void) | null = null;
 
-	private constructor(privateKey: bigint, prefix: string) {
-		this.#privateKey = privateKey;
+	private constructor(signer: Signer, prefix: string, options: KaspeakOptions) {
+		this.#signer = signer;
+		this.#funding = options.funding ?? signer;
 		this.prefixString = prefix;
 		this.prefixBytes = new TextEncoder().encode(prefix.padEnd(4, "\0").slice(0, 4));
+		this.stateStore = options.stateStore ?? new MemoryStateStore();
+		this.reconnectOptions = options.reconnect ?? {};
+		this.#payloadVersion = options.payloadVersion ?? PROTOCOL_VERSION;
+		this.#migratePlaintextState = options.migratePlaintextState ?? false;
+		this.#openSealed = options.openSealed ?? !!signer.getSharedSecretSync;
+		this.messageRegistry.register(GroupMembershipMessage).register(GroupSenderKeyMessage).register(KeyShareMessage);
+		if (options.confirmations) {
+			const { depth = DEFAULT_CONFIRMATION_DEPTH, deferDelivery = false, expiry = DEFAULT_CONFIRMATION_EXPIRY } = options.confirmations;
+			this.confirmationTracker = new ConfirmationTracker(depth, (status) => this.eventBus.emit("transactionStatus", status), undefined, expiry);
+			this.#deferDelivery = deferDelivery;
+		}
 	}
 
 	/* ---------------------------- Initialization --------------------------- */
 
-	private async postInit(): Promise<void> {
-		this.kaspa = await KaspaWasm.create();
-		this.#publicKeyHex = this.kaspa.getPublicKeyFromPrivateKey(this.#privateKey).toString();
-		this.#publicKey = hexToBytes(this.#publicKeyHex);
-		this.#address = this.kaspa.getAddressFromPublicKey(this.#publicKeyHex);
+	private async postInit(transport?: KaspaTransport): Promise<void> {
+		this.kaspa = transport ?? (await KaspaWasm.create());
+		this.#publicKey = new Uint8Array(this.#signer.publicKey);
+		this.#publicKeyHex = bytesToHex(this.#publicKey);
+		this.secretStore = new EncryptedStateStore(this.stateStore, await this.deriveStateKey(), this.#migratePlaintextState);
+		this.updateAddresses();
+		this.#unsubscribeConnection = this.kaspa.onConnectionChange((connected) => {
+			if (connected || !this.#online) return;
+			this.#online = false;
+			logger.debug("Connection to node lost");
+			this.eventBus.emit("disconnected", this.connectionInfo());
+		});
+		this.#unsubscribeUtxo = this.kaspa.onUtxoChange((change) => {
+			this.#walletBalance = change.balance;
+			this.eventBus.emit("utxoChanged", change);
+		});
+		await this.loadState();
+	}
+
+	/** ECDH of the identity key with itself, so external signers can derive it too. */
+	private async deriveStateKey(): Promise<Uint8Array> {
+		const secret = await this.#signer.getSharedSecret(Point.fromBytes(this.#publicKey));
+		return hkdf(sha256, secret, undefined, "kaspeak/state-store", 32);
+	}
+
+	/** Derive the addresses, whose prefix depends on the network. */
+	private updateAddresses(): void {
+		const fundingKeys = this.#funding.fundingPublicKeys ?? [this.#funding.publicKey];
+		this.#fundingAddresses = fundingKeys.map((key) => this.kaspa.getAddressFromPublicKey(key));
+		this.#address = this.kaspa.getAddressFromPublicKey(this.#funding.publicKey);
+		if (!this.#fundingAddresses.includes(this.#address)) this.#fundingAddresses.unshift(this.#address);
+		this.#identityAddress = this.kaspa.getAddressFromPublicKey(this.#publicKeyHex);
 	}
 
 	private async initWasmModules(): Promise<void> {
 		await Promise.all([ensureZstdInitialized(), ensureKaspaInitialized()]);
 	}
 
-	public static async create(privateKey: number | Uint8Array | string | bigint, prefix = "TEST"): Promise<Kaspeak> {
-		let privateKeyBigInt: bigint;
-		if (typeof privateKey === "string") privateKeyBigInt = hexToInt(privateKey);
-		else if (typeof privateKey === "number") privateKeyBigInt = BigInt(privateKey);
-		else if (privateKey instanceof Uint8Array) privateKeyBigInt = bytesToInt(privateKey);
-		else privateKeyBigInt = privateKey;
+	public static async create(
+		privateKey: number | Uint8Array | string | bigint | Signer,
+		prefix = "TEST",
+		options: KaspeakOptions = {}
+	): Promise<Kaspeak> {
+		let signer: Signer;
+		if (typeof privateKey === "string") signer = new KeySigner(hexToInt(privateKey));
+		else if (typeof privateKey === "number") signer = new KeySigner(BigInt(privateKey));
+		else if (privateKey instanceof Uint8Array) signer = new KeySigner(bytesToInt(privateKey));
+		else if (typeof privateKey === "bigint") signer = new KeySigner(privateKey);
+		else signer = privateKey;
 
-		const sdk = new Kaspeak(privateKeyBigInt, prefix);
+		const sdk = new Kaspeak(signer, prefix, options);
 		await sdk.initWasmModules();
-		await sdk.postInit();
+		await sdk.postInit(options.transport);
+		return sdk;
+	}
+
+	/**
+	 * Create an SDK from a BIP39 mnemonic, with the messaging identity and the
+	 * funding wallet derived on separate {@link HDWallet} paths. Rotating
+	 * `fundingIndex` keeps the identity peers know us by.
+	 *
+	 * @throws Error if the phrase is not a valid mnemonic.
+	 */
+	public static async fromMnemonic(phrase: string, prefix = "TEST", options: MnemonicOptions = {}): Promise<Kaspeak> {
+		const { passphrase, account = 0, fundingIndex = 0, ...rest } = options;
+		const wallet = await HDWallet.fromMnemonic(phrase, passphrase);
+		return Kaspeak.create(new KeySigner(wallet.identityKey(account)), prefix, {
+			...rest,
+			funding: rest.funding ?? wallet.fundingSigner(account, fundingIndex)
+		});
+	}
+
+	/**
+	 * Create an SDK from a {@link Keystore}, restoring the conversation
+	 * secrets it holds. Mnemonic keystores go through {@link fromMnemonic},
+	 * so `options` may pick the account and funding index.
+	 *
+	 * @throws Error if the password is wrong or the keystore holds no key.
+	 */
+	public static async fromKeystore(keystore: KeystoreJSON | string, password: string, prefix = "TEST", options: MnemonicOptions = {}): Promise<Kaspeak> {
+		const content = await Keystore.decrypt(keystore, password);
+		let sdk: Kaspeak;
+		if (content.mnemonic) sdk = await Kaspeak.fromMnemonic(content.mnemonic, prefix, { passphrase: content.passphrase, ...options });
+		else if (content.privateKey) sdk = await Kaspeak.create(content.privateKey, prefix, options);
+		else throw new Error("Keystore holds no key");
+		if (content.secrets) await sdk.importSecrets(content.secrets as ConversationSecrets);
 		return sdk;
 	}
 
@@ -105,83 +465,400 @@ export class Kaspeak {
 
 	/* ------------------------------ Kaspa RPC -------------------------------- */
 
+	/**
+	 * Connects to a node, subscribes to new blocks, starts UTXO tracking and
+	 * resumes from the persisted cursor. After {@link disconnect} it may be
+	 * called again, also with a different `networkId`.
+	 *
+	 * @throws Error if the SDK has been disposed.
+	 */
 	public async connect(networkId?: string, url?: string): Promise<void> {
+		if (this.#disposed) throw new Error("Kaspeak instance has been disposed");
+		if (this.#unsubscribeBlocks) {
+			logger.warn("Kaspeak is already connected, call disconnect() first.");
+			return;
+		}
 		await this.kaspa.connect(networkId, url);
 		await this.kaspa.getServerInfo();
+		// The address prefix depends on the network.
+		this.updateAddresses();
 
-		this.kaspa.subscribe((block) => {
-			const blockMeta: BlockMeta = {
-				hash: block.header.hash,
-				timestamp: block.header.timestamp,
-				daaScore: block.header.daaScore
-			};
-			return this.processTransactions(block.transactions, blockMeta);
-		});
+		this.#unsubscribeBlocks = this.kaspa.subscribe((block) => this.processBlock(block, false));
+		const tracker = this.confirmationTracker;
+		if (tracker) this.#unsubscribeChain = this.kaspa.subscribeVirtualChain((change) => tracker.applyChainChange(change));
 
-		await this.kaspa.startUtxoMonitoring(this.#address);
+		await this.kaspa.startUtxoMonitoring(this.#fundingAddresses);
 		await this.getBalance();
 		logger.debug("Connected to node and subscribed to new blocks");
+		this.#online = true;
+		this.eventBus.emit("connected", this.connectionInfo());
+
+		if (this.reconnectOptions) {
+			this.supervisor ??= new ReconnectSupervisor(this.kaspa, this.reconnectOptions, {
+				reconnect: async (url) => {
+					const networkId = this.kaspa.networkId;
+					await this.kaspa.disconnect();
+					await this.kaspa.connect(networkId, url);
+					await this.kaspa.getServerInfo();
+				},
+				restore: () => this.restoreConnection(),
+				onReconnecting: (attempt) => this.eventBus.emit("reconnecting", attempt),
+				onGiveUp: (e) => this.eventBus.emit("error", `Reconnection abandoned: ${e.message}`)
+			});
+			this.supervisor.start();
+		}
+
+		this.#cursor = await this.loadCursor();
+		this.resumeFromCursor().catch((e) => this.eventBus.emit("error", `Resume sync failed: ${e.message}`));
+	}
+
+	/**
+	 * Stops automatic reconnection, unsubscribes from blocks, flushes state and
+	 * closes the node connection together with UTXO tracking. Registered
+	 * messages, workers and event listeners are kept for the next `connect()`.
+	 */
+	public async disconnect(): Promise<void> {
+		this.supervisor?.stop();
+		this.#unsubscribeBlocks?.();
+		this.#unsubscribeBlocks = null;
+		this.#unsubscribeChain?.();
+		this.#unsubscribeChain = null;
+		await this.saveState();
+
+		const info = this.connectionInfo();
+		const wasOnline = this.#online;
+		this.#online = false;
+		await this.kaspa.disconnect();
+		if (wasOnline) this.eventBus.emit("disconnected", info);
+		logger.debug("Disconnected from node");
+	}
+
+	/**
+	 * Disconnects and releases everything the instance holds: event listeners,
+	 * the connection handler on the transport and buffered chunks. The instance
+	 * cannot be connected again.
+	 */
+	public async dispose(): Promise<void> {
+		if (this.#disposed) return;
+		await this.disconnect();
+		this.#disposed = true;
+		this.#unsubscribeConnection?.();
+		this.#unsubscribeConnection = null;
+		this.#unsubscribeUtxo?.();
+		this.#unsubscribeUtxo = null;
+		this.supervisor = null;
+		this.chunkAssembler.clear();
+		this.confirmationTracker?.clear();
+		this.conversations.clear();
+		this.#ratchetSessions.clear();
+		this.#conversationKeys.clear();
+		this.identifierWatcher.clear();
+		this.firstContactHandlers.clear();
+		this.groupManager.clear();
+		this.eventBus.clear();
+	}
+
+	/**
+	 * Runs after the supervisor has the connection back: restores UTXO
+	 * tracking, backfills the blocks added while the SDK was offline and
+	 * re-queries the acceptance notifications missed in between.
+	 */
+	private async restoreConnection(): Promise<void> {
+		try {
+			await this.kaspa.startUtxoMonitoring(this.#fundingAddresses);
+			await this.getBalance();
+			this.#online = true;
+			logger.debug(`Reconnected to ${this.kaspa.url ?? "node"}`);
+			this.eventBus.emit("connected", this.connectionInfo());
+			await this.resumeFromCursor();
+			await this.requeryAcceptance();
+		} catch (e) {
+			this.eventBus.emit("error", `Restoring connection failed: ${e instanceof Error ? e.message : String(e)}`);
+		}
+	}
+
+	/** Replay the virtual chain since the last chain block the tracker saw. */
+	private async requeryAcceptance(): Promise<void> {
+		const startHash = this.confirmationTracker?.lastChainBlock;
+		if (!startHash) return;
+		logger.debug(`Re-querying acceptance since chain block ${startHash}`);
+		this.confirmationTracker!.applyChainChange(await this.kaspa.getVirtualChainFromBlock(startHash));
+	}
+
+	private async resumeFromCursor(): Promise<void> {
+		if (!this.#cursor) return;
+		const fromBlockHash = this.#cursor.hash;
+		logger.debug(`Resuming from block ${fromBlockHash}`);
+		await this.sync({ fromBlockHash });
+	}
+
+	private connectionInfo(): ConnectionInfo {
+		return { networkId: this.kaspa.networkId, url: this.kaspa.url };
+	}
+
+	/**
+	 * Scans past blocks for Kaspeak payloads and feeds them through the same
+	 * pipeline as live blocks: prefix filter, signature verification,
+	 * deduplication and workers. Emits `syncProgress` after every page.
+	 *
+	 * @throws Error if the SDK is not connected.
+	 */
+	public async sync(options: SyncOptions = {}): Promise<SyncResult> {
+		this.#syncing++;
+		try {
+			return await this.syncBlocks(options);
+		} finally {
+			this.#syncing--;
+		}
+	}
+
+	private async syncBlocks(options: SyncOptions): Promise<SyncResult> {
+		const { fromBlockHash, fromDaaScore = 0n, toTip = true } = options;
+		const info = await this.kaspa.getBlockDagInfo();
+		const targetDaaScore = info.virtualDaaScore;
+		let lowHash = fromBlockHash ?? info.pruningPointHash;
+		// The first page includes the starting block itself; later pages repeat the previous last block.
+		let scannedHash: string | undefined;
+		let lastDaaScore = 0n;
+		let processedBlocks = 0;
+
+		for (;;) {
+			const blocks = await this.kaspa.getBlocks(lowHash);
+			let nextLowHash: string | undefined;
+			for (const block of blocks) {
+				if (block.header.hash === scannedHash) continue;
+				nextLowHash = block.header.hash;
+				if (block.header.daaScore > lastDaaScore) lastDaaScore = block.header.daaScore;
+				if (block.header.daaScore < fromDaaScore) continue;
+				await this.processBlock(block, true);
+				processedBlocks++;
+			}
+
+			const caughtUp = !nextLowHash || (!toTip && lastDaaScore >= targetDaaScore);
+			this.eventBus.emit("syncProgress", { processedBlocks, daaScore: lastDaaScore, targetDaaScore, done: caughtUp });
+			if (nextLowHash) lowHash = scannedHash = nextLowHash;
+			if (caughtUp) break;
+		}
+
+		logger.debug(`Sync finished: ${processedBlocks} blocks processed up to ${lowHash}`);
+		await this.saveState();
+		return { processedBlocks, lastBlockHash: lowHash, lastDaaScore };
 	}
 
 	public get isConnected(): boolean {
 		return this.kaspa.isConnected;
 	}
 
+	/**
+	 * Balance of `address`, or of every funding address when omitted, in KAS.
+	 * Meant for display; use {@link getBalanceSompi} for exact amounts.
+	 */
 	public async getBalance(address?: string): Promise<number> {
-		const addr = address ?? this.#address;
-		const { balance, utxoCount } = await this.kaspa.getBalance(addr);
-		if (addr === this.#address) {
-			this.#balance = balance;
-			this.#utxoCount = utxoCount;
+		return Number(await this.getBalanceSompi(address)) / 1e8;
+	}
+
+	/** Exact balance of `address`, or of every funding address when omitted, in sompi. */
+	public async getBalanceSompi(address?: string): Promise<bigint> {
+		const { balanceSompi, utxoCount } = await this.kaspa.getBalance(address ?? this.#fundingAddresses);
+		if (address === undefined) {
+			this.#walletBalance = this.kaspa.getTrackedBalance() ?? { mature: balanceSompi, pending: 0n, outgoing: 0n, utxoCount };
 		}
-		return balance;
+		return balanceSompi;
+	}
+
+	/** UTXOs of the funding addresses, pending ones included; empty while disconnected. */
+	public listUtxos(): UtxoInfo[] {
+		return this.kaspa.listUtxos();
+	}
+
+	/**
+	 * Tracking state of a sent or received message transaction. `undefined`
+	 * when confirmation tracking is disabled, the transaction is unknown, or
+	 * it has already been confirmed and reported.
+	 */
+	public getTransactionStatus(txid: string): TransactionStatus | undefined {
+		return this.confirmationTracker?.get(txid);
 	}
 
 	/* ------------------------------ Accessors ------------------------------ */
 
+	/** Current funding address, which pays the fees and receives the change. */
 	public get address(): string {
 		return this.#address;
 	}
 
+	/** Every watched funding address, the current one first. */
+	public get fundingAddresses(): string[] {
+		return [...this.#fundingAddresses];
+	}
+
 	public get publicKey(): string {
 		return this.#publicKeyHex;
 	}
 
+	/** Last known balance in KAS, mature and pending; see {@link balanceSompi}. */
 	public get balance(): number {
-		return this.#balance;
+		return Number(this.balanceSompi) / 1e8;
+	}
+
+	/** Last known balance in sompi, mature and pending; kept current by UTXO change events. */
+	public get balanceSompi(): bigint {
+		return this.#walletBalance.mature + this.#walletBalance.pending;
+	}
+
+	/** Last known balance split into mature, pending and outgoing sompi. */
+	public get walletBalance(): WalletBalance {
+		return { ...this.#walletBalance };
 	}
 
 	public get utxoCount(): number {
-		return this.#utxoCount;
+		return this.#walletBalance.utxoCount;
+	}
+
+	/** Last processed block on the connected network, or `null` before the first one. */
+	public get cursor(): SyncCursor | null {
+		return this.#cursor ? { ...this.#cursor } : null;
+	}
+
+	/* ------------------------------ State store ----------------------------- */
+
+	/** Last used identifier indices of the conversation with `publicKey`. */
+	public getConversationIndices(publicKey: Point | string | Uint8Array): ConversationIndices {
+		const indices = this.#conversationIndices[bytesToHex(this.toPublicKeyPoint(publicKey).toCompressed())];
+		return indices ? { ...indices } : { send: 0, receive: 0 };
+	}
+
+	/** Record the last used identifier indices of the conversation with `publicKey`. */
+	public setConversationIndices(publicKey: Point | string | Uint8Array, indices: ConversationIndices): void {
+		this.#conversationIndices[bytesToHex(this.toPublicKeyPoint(publicKey).toCompressed())] = { ...indices };
+		this.scheduleStateFlush();
+	}
+
+	/**
+	 * Double-ratchet session with `publicKey`, restored from the state store or
+	 * started from the static ECDH secret. Pass it as the `key` of
+	 * {@link send} and {@link decode}; its state is saved with the rest of the
+	 * SDK state, so call {@link saveState} (or let the periodic flush run)
+	 * after using it.
+	 */
+	public async ratchetSession(publicKey: Point | string | Uint8Array): Promise<RatchetSession> {
+		const point = this.toPublicKeyPoint(publicKey);
+		const key = bytesToHex(point.toCompressed());
+		const existing = this.#ratchetSessions.get(key);
+		if (existing) return existing;
+		const stored = this.#ratchetStates[key];
+		const session = stored ? RatchetSession.fromJSON(stored, this.#signer) : await RatchetSession.init(this.#signer, point);
+		// Another call may have started the session while the signer was busy.
+		if (this.#ratchetSessions.has(key)) return this.#ratchetSessions.get(key)!;
+		this.#ratchetSessions.set(key, session);
+		this.scheduleStateFlush();
+		return session;
+	}
+
+	/**
+	 * Write the cursor, the deduplication set, conversation indices and ratchet
+	 * sessions to the state store now instead of waiting for the periodic flush.
+	 */
+	public async saveState(): Promise<void> {
+		clearTimeout(this.#stateFlushTimer);
+		this.#stateFlushTimer = undefined;
+		for (const [key, session] of this.#ratchetSessions) this.#ratchetStates[key] = session.toJSON();
+		const writes = [
+			this.stateStore.set(this.stateKey("knownTxIds"), this.knownTxIds.values()),
+			this.stateStore.set(this.stateKey("conversations"), this.#conversationIndices),
+			this.secretStore.set(this.stateKey("ratchets"), this.#ratchetStates),
+			this.secretStore.set(this.stateKey("groups"), this.groupManager.toJSON())
+		];
+		if (this.#cursor) {
+			const { hash, daaScore } = this.#cursor;
+			writes.push(this.stateStore.set(this.cursorKey(), { hash, daaScore: daaScore.toString() }));
+		}
+		await Promise.all(writes);
+	}
+
+	/**
+	 * Ratchet sessions, groups and conversation indices, to be sealed in a
+	 * {@link Keystore} next to the key.
+	 */
+	public exportSecrets(): ConversationSecrets {
+		for (const [key, session] of this.#ratchetSessions) this.#ratchetStates[key] = session.toJSON();
+		const secrets = { ratchets: this.#ratchetStates, groups: this.groupManager.toJSON(), conversations: this.#conversationIndices };
+		return JSON.parse(JSON.stringify(secrets));
+	}
+
+	/**
+	 * Restore secrets from {@link exportSecrets}, replacing the state of the
+	 * same peers and groups, and write them to the state store.
+	 */
+	public async importSecrets(secrets: ConversationSecrets): Promise<void> {
+		for (const [key, state] of Object.entries(secrets.ratchets ?? {})) {
+			this.#ratchetStates[key] = state;
+			this.#ratchetSessions.delete(key);
+		}
+		Object.assign(this.#conversationIndices, secrets.conversations);
+		this.groupManager.load(secrets.groups ?? {});
+		await this.saveState();
+	}
+
+	private stateKey(name: string): string {
+		return `kaspeak:${this.prefixString}:${this.#publicKeyHex}:${name}`;
+	}
+
+	private cursorKey(): string {
+		return this.stateKey(`cursor:${this.kaspa.networkId}`);
+	}
+
+	private async loadState(): Promise<void> {
+		const knownTxIds = await this.stateStore.get<string[]>(this.stateKey("knownTxIds"));
+		for (const txid of knownTxIds ?? []) this.knownTxIds.tryAdd(txid);
+		this.#conversationIndices = (await this.stateStore.get<Record<string, ConversationIndices>>(this.stateKey("conversations"))) ?? {};
+		this.#ratchetStates = (await this.secretStore.get<Record<string, RatchetState>>(this.stateKey("ratchets"))) ?? {};
+		this.groupManager.load((await this.secretStore.get<Record<string, GroupState>>(this.stateKey("groups"))) ?? {});
+	}
+
+	private async loadCursor(): Promise<SyncCursor | null> {
+		const stored = await this.stateStore.get<{ hash: string; daaScore: string }>(this.cursorKey());
+		return stored ? { hash: stored.hash, daaScore: BigInt(stored.daaScore) } : null;
+	}
+
+	private scheduleStateFlush(): void {
+		if (this.#stateFlushTimer) return;
+		this.#stateFlushTimer = setTimeout(() => {
+			this.#stateFlushTimer = undefined;
+			this.saveState().catch((e) => this.eventBus.emit("error", `State flush failed: ${e.message}`));
+		}, STATE_FLUSH_INTERVAL_MS);
 	}
 
 	/* ------------------------------- Events -------------------------------- */
 
-	public on<E extends keyof KaspeakEvents>(event: E, listener: (data: KaspeakEvents[E]) => void): void {
-		this.eventBus.on(event, listener);
+	/** Subscribe to an SDK event; returns a function that removes the listener. */
+	public on<E extends keyof KaspeakEvents>(event: E, listener: (data: KaspeakEvents[E]) => void): () => void {
+		return this.eventBus.on(event, listener);
 	}
 
 	public off<E extends keyof KaspeakEvents>(event: E, listener: (data: KaspeakEvents[E]) => void): void {
 		this.eventBus.off(event, listener);
 	}
 
-	public once<E extends keyof KaspeakEvents>(event: E, listener: (data: KaspeakEvents[E]) => void): void {
-		this.eventBus.once(event, listener);
+	public once<E extends keyof KaspeakEvents>(event: E, listener: (data: KaspeakEvents[E]) => void): () => void {
+		return this.eventBus.once(event, listener);
 	}
 
 	/* ----------------------- Message encode / decode ----------------------- */
 
-	public async encode(message: BaseMessage, key?: Uint8Array): Promise<Uint8Array> {
-		return MessageSerializer.encode(message, key);
+	public async encode(message: BaseMessage, key?: Uint8Array | MessageCipher, options?: EncodeOptions): Promise<Uint8Array> {
+		return MessageSerializer.encode(message, key, options);
 	}
 
-	public async decode<T extends BaseMessage>(header: MessageHeader, data: Uint8Array, key?: Uint8Array): Promise<T> {
+	public async decode<T extends BaseMessage>(header: MessageHeader, data: Uint8Array, key?: Uint8Array | MessageCipher): Promise<T> {
 		return MessageSerializer.decode(this.messageRegistry, header, data, key);
 	}
 
 	public registerMessage(message: MessageClass, worker?: WorkerFn) {
 		if (message.messageType < 0 || message.messageType > 65535)
 			throw new Error(`Invalid messageType: ${message.messageType}. messageType must be between 0 and 65535.`);
+		if (message.messageType >= RESERVED_MESSAGE_TYPE_MIN)
+			throw new Error(`Invalid messageType: ${message.messageType}. Types from ${RESERVED_MESSAGE_TYPE_MIN} are reserved by the SDK.`);
 		this.messageRegistry.register(message, worker);
 	}
 
@@ -197,19 +874,178 @@ export class Kaspeak {
 		});
 	}
 
+	/**
+	 * Deliver messages by identifier instead of type. `identifier` is an
+	 * {@link Identifier}, its hex, or a predicate tested against every message.
+	 * Exact identifiers are matched with one hash lookup per message.
+	 *
+	 * @returns Function that removes the watch.
+	 */
+	public watchIdentifier(identifier: Identifier | string | IdentifierPredicate, handler: IdentifierHandler): () => void {
+		return typeof identifier === "function"
+			? this.identifierWatcher.watchPredicate(identifier, handler)
+			: this.identifierWatcher.watchIdentifier(identifier, handler);
+	}
+
+	/**
+	 * Deliver stealth first-contact messages addressed to us (sent with
+	 * `{ stealth: true }`) to `handler` instead of the type worker.
+	 *
+	 * While at least one handler is registered, every incoming payload is
+	 * tested with {@link Identifier.isStealthFor}: one ECDH and one point
+	 * multiplication per transaction. Nothing is delivered while
+	 * `openSealed` is off.
+	 *
+	 * @returns Function that removes the handler.
+	 */
+	public onFirstContact(handler: FirstContactHandler): () => void {
+		this.firstContactHandlers.add(handler);
+		return () => this.firstContactHandlers.delete(handler);
+	}
+
+	/**
+	 * Deliver messages whose identifier is among the next `window` identifiers
+	 * of the chain `basePoint · chainKey^i` (see {@link Identifier.fromChainKey}).
+	 * The window moves forward as messages arrive; `handler` also receives the
+	 * chain index.
+	 *
+	 * @param lastIndex - Highest index already received (default `0`).
+	 */
+	public watchChain(
+		basePoint: Point | string | Uint8Array,
+		chainKey: bigint,
+		window: number,
+		handler: IdentifierHandler,
+		lastIndex = 0
+	): ChainWatch {
+		return this.identifierWatcher.watchChain(this.toPublicKeyPoint(basePoint), chainKey, window, handler, lastIndex);
+	}
+
+	/* -------------------------------- Groups -------------------------------- */
+
+	/**
+	 * Create a group owned by a fresh {@link SecretIdentifier} and send the
+	 * signed member list to every member (one transaction per member). We are
+	 * always a member of our own groups.
+	 */
+	public async createGroup(members: (Point | string | Uint8Array)[]): Promise<Group> {
+		return this.groupManager.create(members);
+	}
+
+	/** Group with id `id` that we own or have been added to. */
+	public group(id: string): Group | undefined {
+		return this.groupManager.get(id);
+	}
+
+	public getGroups(): Group[] {
+		return this.groupManager.list();
+	}
+
+	/* ------------------------------ Key backup ------------------------------ */
+
+	/**
+	 * Send `shares[i]`, e.g. from {@link Shamir.split}, to `contacts[i]` for
+	 * safekeeping, encrypted pairwise (one transaction per contact).
+	 * Contacts get them through the `keyShareReceived` event and return them
+	 * the same way to the key the owner recovers with.
+	 *
+	 * @throws Error if the counts differ.
+	 */
+	public async sendKeyShares(shares: SecretShare[], contacts: (Point | string | Uint8Array)[]): Promise<SendResult[]> {
+		if (shares.length !== contacts.length) throw new Error(`Got ${shares.length} shares for ${contacts.length} contacts`);
+		const results: SendResult[] = [];
+		for (const [i, contact] of contacts.entries()) {
+			const message = new KeyShareMessage(Shamir.encodeShare(shares[i]));
+			results.push(await this.send(message, { recipient: contact, identifier: await this.keyShareIdentifier(contact, contact) }));
+		}
+		return results;
+	}
+
+	/** Identifier of key share messages between us and `peer`, addressed to `recipient`. */
+	private async keyShareIdentifier(peer: Point | string | Uint8Array, recipient: Point | string | Uint8Array): Promise<Identifier> {
+		const { secret } = await this.deriveConversationKeysAsync(peer);
+		const key = bytesToInt(sha256FromString(`kaspeak/key-share:${bytesToHex(secret)}`));
+		return Identifier.fromChainKey(key, 1, recipient);
+	}
+
+	private async handleKeyShare(header: MessageHeader, data: Uint8Array): Promise<void> {
+		const sender = bytesToHex(header.peer.publicKey);
+		if (header.identifier.hex !== (await this.keyShareIdentifier(sender, this.#publicKey)).hex) return;
+		const decoded = await this.decode(header, data, (await this.deriveConversationKeysAsync(sender)).secret);
+		if (decoded instanceof UnknownMessage) {
+			logger.debug(`Key share from ${sender} could not be decoded: ${decoded.errorDesc}`);
+			return;
+		}
+		let share: SecretShare;
+		try {
+			share = Shamir.decodeShare((decoded as KeyShareMessage).share);
+		} catch (e) {
+			logger.warn(`Rejected key share from ${sender}: ${(e as Error).message}`);
+			return;
+		}
+		this.eventBus.emit("keyShareReceived", { from: sender, share, header });
+	}
+
 	/* ---------------------------- Crypto helpers --------------------------- */
 
+	/**
+	 * Shared secret and chain key with `publicKey`.
+	 *
+	 * @throws Error if the signer has no `getSharedSecretSync`; use
+	 *         {@link deriveConversationKeysAsync} with external signers.
+	 */
 	public deriveConversationKeys(publicKey: Point | string | Uint8Array): ConversationKeys {
-		const publicKeyPoint =
-			publicKey instanceof Point
-				? publicKey
-				: typeof publicKey === "string"
-					? Point.fromHex(publicKey)
-					: Point.fromBytes(publicKey);
+		if (!this.#signer.getSharedSecretSync) throw new Error("Signer cannot derive shared secrets synchronously, use deriveConversationKeysAsync()");
+		const publicKeyPoint = this.toPublicKeyPoint(publicKey);
+		const peer = bytesToHex(publicKeyPoint.toCompressed());
+		let keys = this.#conversationKeys.get(peer) as ConversationKeys | undefined;
+		if (!keys) {
+			keys = this.toConversationKeys(this.#signer.getSharedSecretSync(publicKeyPoint));
+			this.#conversationKeys.set(peer, keys);
+		}
+		return { secret: new Uint8Array(keys.secret), chainKey: keys.chainKey };
+	}
+
+	/** {@link deriveConversationKeys} for any signer; the signer is asked once per peer. */
+	public async deriveConversationKeysAsync(publicKey: Point | string | Uint8Array): Promise<ConversationKeys> {
+		if (this.#signer.getSharedSecretSync) return this.deriveConversationKeys(publicKey);
+		const publicKeyPoint = this.toPublicKeyPoint(publicKey);
+		const peer = bytesToHex(publicKeyPoint.toCompressed());
+		let keys = this.#conversationKeys.get(peer);
+		if (!keys) {
+			keys = this.#signer.getSharedSecret(publicKeyPoint).then((secret) => this.toConversationKeys(secret));
+			this.#conversationKeys.set(peer, keys);
+			keys.catch(() => this.#conversationKeys.delete(peer));
+		}
+		const { secret, chainKey } = await keys;
+		return { secret: new Uint8Array(secret), chainKey };
+	}
+
+	private toConversationKeys(secret: Uint8Array): ConversationKeys {
+		return { secret, chainKey: bytesToInt(sha256FromBytes(secret)) };
+	}
+
+	/**
+	 * Conversation with `peerPublicKey`, resuming from the persisted indices.
+	 * Repeated calls for the same peer return the same instance; `options`
+	 * only apply to the first call.
+	 */
+	public async conversation(peerPublicKey: Point | string | Uint8Array, options: ConversationOptions = {}): Promise<Conversation> {
+		const point = this.toPublicKeyPoint(peerPublicKey);
+		const key = bytesToHex(point.toCompressed());
+		const existing = this.conversations.get(key);
+		if (existing) return existing;
+		const keys = await this.deriveConversationKeysAsync(point);
+		const cipher = options.ratchet ? await this.ratchetSession(point) : keys.secret;
+		// Another call may have created it while the signer was busy.
+		if (this.conversations.has(key)) return this.conversations.get(key)!;
+		const conversation = new Conversation(this, point, keys, cipher, options);
+		this.conversations.set(key, conversation);
+		return conversation;
+	}
 
-		const secret = Secp256k1.getSharedSecret(this.#privateKey, publicKeyPoint);
-		const chainKey = bytesToInt(sha256FromBytes(secret));
-		return { secret, chainKey };
+	private toPublicKeyPoint(publicKey: Point | string | Uint8Array): Point {
+		return publicKey instanceof Point ? publicKey : typeof publicKey === "string" ? Point.fromHex(publicKey) : Point.fromBytes(publicKey);
 	}
 
 	public getAddressFromPublicKey(publicKey: string | Uint8Array | KaspaPublicKey): string {
@@ -218,19 +1054,50 @@ export class Kaspeak {
 
 	/* --------------------------- Payload helpers --------------------------- */
 
+	/**
+	 * Build and sign a payload in the configured `payloadVersion`.
+	 * `signingKey` replaces our key as the payload key, e.g. the one-time key
+	 * of a sealed message. `flags` ({@link PayloadFlag}) are only written to
+	 * v2 payloads.
+	 */
 	public async createPayload(
 		outpointIds: string,
 		messageType: number,
 		identifier: SecretIdentifier | Identifier,
-		data: Uint8Array
+		data: Uint8Array,
+		signingKey?: bigint,
+		flags = 0
 	): Promise<string> {
 		if (messageType < 0 || messageType > 65535)
 			throw new Error(`Invalid messageType: ${messageType}. messageType must be between 0 and 65535.`);
-		const payload = new Payload(this.prefixBytes, messageType, identifier, this.#publicKey, data);
-		await payload.sign(outpointIds, this.#privateKey);
+		const publicKey = signingKey === undefined ? this.#publicKey : Secp256k1.getPub(signingKey).toCompressed();
+		const version = this.#payloadVersion;
+		const payload = new Payload(this.prefixBytes, messageType, identifier, publicKey, data, version, version === PROTOCOL_VERSION ? 0 : flags);
+		await payload.sign(outpointIds, signingKey ?? this.#signer);
 		return payload.toHex();
 	}
 
+	private async sealEnvelope(messageType: number, data: Uint8Array, oneTimeKey: bigint, recipient: Point): Promise<Uint8Array> {
+		const oneTimePublicKey = Secp256k1.getPub(oneTimeKey).toCompressed();
+		const signature = await this.#signer.signMessage(SealedEnvelope.signingMessage(oneTimePublicKey, messageType, data));
+		return new SealedEnvelope(this.#publicKey, signature, messageType, data).seal(oneTimeKey, recipient);
+	}
+
+	/** Open a sealed message addressed to us and dispatch the inner message as sent by the real sender. */
+	private async openSealed(header: MessageHeader, data: Uint8Array): Promise<void> {
+		const oneTimePublicKey = header.peer.publicKey;
+		const envelope = await SealedEnvelope.open(data, this.#signer, oneTimePublicKey);
+		if (!envelope) return;
+		const message = SealedEnvelope.signingMessage(oneTimePublicKey, envelope.messageType, envelope.data);
+		if (!(await Schnorr.verify(envelope.signature, message, bytesToHex(envelope.publicKey)))) {
+			logger.warn(`Sealed sender signature verification failed for txId: ${header.txid}`);
+			return;
+		}
+		const address = this.kaspa.getAddressFromPublicKey(envelope.publicKey);
+		const peer = new Peer(address, envelope.publicKey, envelope.signature, address === this.#identityAddress, this.#signer);
+		this.dispatchMessage(header.withPeer(peer, envelope.messageType), envelope.data);
+	}
+
 	public parsePayload(data: Uint8Array | string): Payload {
 		return typeof data === "string" ? Payload.fromHex(data) : Payload.fromBytes(data);
 	}
@@ -243,15 +1110,108 @@ export class Kaspeak {
 			.join("");
 	}
 
+	/* ------------------------------- Sending ------------------------------- */
+
+	/**
+	 * Encodes `message`, builds a transaction for it, signs the payload and
+	 * submits the transaction.
+	 *
+	 * When the message class requires encryption, the key is taken from
+	 * `options.key` or derived from `options.recipient` via
+	 * {@link deriveConversationKeys}.
+	 *
+	 * Encoded data larger than {@link MAX_DATA_SIZE} is split into {@link Chunk}s
+	 * sent in consecutive transactions under the same identifier; receivers
+	 * reassemble them and call the worker once.
+	 *
+	 * With `options.sealed`, the encoded message is wrapped in a
+	 * {@link SealedEnvelope} for `options.recipient` and the payload is signed
+	 * by a one-time key. We do not receive our own sealed messages.
+	 * `options.stealth` additionally derives the identifier from that key.
+	 *
+	 * @throws Error if encryption is required but neither `key` nor `recipient`
+	 *               is provided, if `sealed` or `stealth` is set without `recipient`, if
+	 *               an encrypted message has a `paddingPolicy` but v1 payloads are sent, or if
+	 *               the message needs more chunks than `MAX_CHUNK_COUNT`.
+	 */
+	public async send(message: BaseMessage, options: SendOptions = {}): Promise<SendResult> {
+		let identifier = options.identifier ?? SecretIdentifier.random();
+		let key: Uint8Array | MessageCipher | undefined;
+		if (message.requiresEncryption) {
+			if (options.key) key = options.key;
+			else if (options.recipient) key = (await this.deriveConversationKeysAsync(options.recipient)).secret;
+			else throw new Error(`Message type ${message.messageType} requires encryption: provide a recipient or a key`);
+		}
+		if ((options.sealed || options.stealth) && !options.recipient) throw new Error("Sealed messages require a recipient");
+
+		let messageType = message.messageType;
+		// v2 payloads carry flags, so they honour the class codec choice and padding.
+		const describe = this.#payloadVersion !== PROTOCOL_VERSION;
+		const padded = !!key && message.paddingPolicy !== "none";
+		// Without the PADDED flag the receiver could not tell padding from data; refuse rather than leak the length.
+		if (padded && !describe) throw new Error(`Message type ${messageType} has a paddingPolicy, which needs payloadVersion 2`);
+		const capacity = MAX_DATA_SIZE - (options.sealed || options.stealth ? SEALED_ENVELOPE_OVERHEAD : 0);
+		let data = await this.encode(message, key, { describe, pad: padded, capacity });
+		let flags = 0;
+		if (describe) flags |= PayloadFlag.CODEC;
+		if (!describe || MessageSerializer.readDescriptor(data).compression !== 0) flags |= PayloadFlag.COMPRESSED;
+		if (key) flags |= PayloadFlag.ENCRYPTED;
+		if (padded) flags |= PayloadFlag.PADDED;
+		let signingKey: bigint | undefined;
+		if (options.sealed || options.stealth) {
+			flags |= PayloadFlag.SEALED | PayloadFlag.ENCRYPTED;
+			const recipient = this.toPublicKeyPoint(options.recipient!);
+			signingKey = SecretIdentifier.random().secret;
+			if (options.stealth) identifier = Identifier.stealth(signingKey, recipient);
+			data = await this.sealEnvelope(messageType, data, signingKey, recipient);
+			messageType = SEALED_MESSAGE_TYPE;
+		}
+
+		if (data.length <= MAX_DATA_SIZE) {
+			const sent = await this.sendPayloadData(messageType, identifier, data, signingKey, flags);
+			logger.debug(`Message ${message.messageType} sent in ${sent.txid}`);
+			return { ...sent, txids: [sent.txid] };
+		}
+
+		const chunks = Chunk.split(messageType, data, options.chunkSize ?? MAX_DATA_SIZE - CHUNK_HEADER_SIZE);
+		const result: SendResult = { txid: "", txids: [], payloadSize: 0, feeSompi: 0n };
+		for (const chunk of chunks) {
+			if (chunk.index > 0) await this.kaspa.waitForUtxoChange(CHUNK_UTXO_WAIT_MS);
+			const sent = await this.sendPayloadData(CHUNK_MESSAGE_TYPE, identifier, chunk.toBytes(), signingKey, flags | PayloadFlag.CHUNKED);
+			result.txid = sent.txid;
+			result.txids.push(sent.txid);
+			result.payloadSize += sent.payloadSize;
+			result.feeSompi += sent.feeSompi;
+		}
+		logger.debug(`Message ${message.messageType} sent in ${chunks.length} chunks`);
+		return result;
+	}
+
+	private async sendPayloadData(
+		messageType: number,
+		identifier: SecretIdentifier | Identifier,
+		data: Uint8Array,
+		signingKey?: bigint,
+		flags = 0
+	): Promise<Omit<SendResult, "txids">> {
+		const tx = await this.createTransaction(data.length);
+		const outpointIds = this.getOutpointIds(tx);
+		const payload = await this.createPayload(outpointIds, messageType, identifier, data, signingKey, flags);
+		const feeSompi = this.kaspa.getTransactionFee(tx);
+		const txid = await this.sendTransaction(tx, payload);
+		return { txid, payloadSize: payload.length / 2, feeSompi };
+	}
+
 	/* ------------------------ Transaction utilities ------------------------ */
 
 	public async createTransaction(dataLength: number): Promise<Transaction> {
-		const payloadSize = BigInt(dataLength) + BigInt(HEADER_SIZE);
+		const payloadSize = BigInt(dataLength) + BigInt(Payload.headerSize(this.#payloadVersion, dataLength));
 		return this.kaspa.createTransaction(this.#address, this.#address, payloadSize, this.#priorityFeeSompi);
 	}
 
 	public async sendTransaction(transaction: Transaction, payload: string): Promise<string> {
-		const txid = await this.kaspa.sendTransaction(transaction, this.#privateKey, payload);
+		const txid = await this.kaspa.sendTransaction(transaction, this.#funding, payload);
+		this.confirmationTracker?.trackSent(txid);
 		await this.getBalance();
 		return txid;
 	}
@@ -263,12 +1223,35 @@ export class Kaspeak {
 		blockMeta: BlockMeta,
 		consensusHash: string
 	): MessageHeader {
-		const myAddress = this.#address;
+		const myAddress = this.#identityAddress;
 		const address = this.kaspa.getAddressFromPublicKey(payload.publicKey);
-		return MessageHeader.fromTransaction(myAddress, prefix, txid, address, payload, blockMeta, consensusHash, this.#privateKey);
+		return MessageHeader.fromTransaction(myAddress, prefix, txid, address, payload, blockMeta, consensusHash, this.#signer);
+	}
+
+	private toBlockMeta(block: IBlock): BlockMeta {
+		return {
+			hash: block.header.hash,
+			timestamp: block.header.timestamp,
+			daaScore: block.header.daaScore
+		};
 	}
 
-	private async processTransactions(transactions: ITransaction[], blockMeta: BlockMeta): Promise<void> {
+	/**
+	 * Process one block and advance the cursor. Live blocks do not move the
+	 * cursor while a sync is running, so an interrupted catch-up resumes from
+	 * the last block the sync actually reached.
+	 */
+	private async processBlock(block: IBlock, fromSync: boolean): Promise<void> {
+		const blockMeta = this.toBlockMeta(block);
+		this.confirmationTracker?.noteBlock(blockMeta.hash, blockMeta.daaScore);
+		await this.processTransactions(block.transactions, blockMeta, fromSync);
+		if (!fromSync && this.#syncing > 0) return;
+		if (this.#cursor && this.#cursor.daaScore >= blockMeta.daaScore) return;
+		this.#cursor = { hash: blockMeta.hash, daaScore: blockMeta.daaScore };
+		this.scheduleStateFlush();
+	}
+
+	private async processTransactions(transactions: ITransaction[], blockMeta: BlockMeta, fromSync = false): Promise<void> {
 		for (const tx of transactions) {
 			try {
 				if (tx.payload.length & 1) continue;
@@ -291,12 +1274,73 @@ export class Kaspeak {
 					}
 				}
 				logger.debug("Processing transaction:", tx);
+				if (this.#openSealed && this.firstContactHandlers.size > 0 && (await this.isFirstContact(payload))) this.firstContactIds.tryAdd(bytesToHex(payload.id));
 				const messageHeader = this.createMessageHeaderFromTransaction(txid, prefix, payload, blockMeta, consensusHash);
-				this.eventBus.emit("KaspeakMessageReceived", { header: messageHeader, data: payload.data });
-				if (prefix === this.prefixString) this.callWorker(messageHeader, payload.data);
+				const deliver = () => {
+					if (payload.type === CHUNK_MESSAGE_TYPE) this.processChunk(messageHeader, payload.data);
+					else this.dispatchMessage(messageHeader, payload.data);
+				};
+				const tracker = this.confirmationTracker;
+				if (!tracker) {
+					deliver();
+					continue;
+				}
+				tracker.markIncluded(txid, blockMeta.hash, blockMeta.daaScore, fromSync);
+				if (this.#deferDelivery) tracker.whenConfirmed(txid, deliver, () => logger.warn(`Dropped message ${txid}: its transaction expired before confirmation`));
+				else deliver();
 			} catch (e) {
 				if (e instanceof Error) logger.error(`Error processing transaction: ${e.message}, tx=> ${tx}`);
 			}
 		}
 	}
+
+	/** First-contact scanner: is the payload identifier a stealth identifier for our key? */
+	private async isFirstContact(payload: Payload): Promise<boolean> {
+		if (payload.type !== SEALED_MESSAGE_TYPE && payload.type !== CHUNK_MESSAGE_TYPE) return false;
+		return Identifier.fromBytes(payload.id).isStealthFor(this.#signer, payload.publicKey);
+	}
+
+	private callFirstContactHandlers(header: MessageHeader, data: Uint8Array): void {
+		for (const handler of this.firstContactHandlers) {
+			queueMicrotask(() => {
+				try {
+					void Promise.resolve(handler(header, data)).catch((error) => logger.error("First contact handler error:", error));
+				} catch (error) {
+					logger.error("First contact handler error:", error);
+				}
+			});
+		}
+	}
+
+	private processChunk(header: MessageHeader, data: Uint8Array): void {
+		const chunk = Chunk.fromBytes(data);
+		const key = `${bytesToHex(header.peer.publicKey)}:${header.identifier.hex}`;
+		const message = this.chunkAssembler.add(key, chunk);
+		if (!message) return;
+		logger.debug(`Reassembled message ${message.messageType} from ${chunk.total} chunks`);
+		this.dispatchMessage(header.withType(message.messageType), message.data);
+	}
+
+	private dispatchMessage(header: MessageHeader, data: Uint8Array): void {
+		if (header.type === SEALED_MESSAGE_TYPE) {
+			if (!this.#openSealed) return;
+			this.openSealed(header, data).catch((e) => logger.error(`Sealed message ${header.txid} failed: ${e.message}`));
+			return;
+		}
+		if (header.type === GROUP_MEMBERSHIP_MESSAGE_TYPE || header.type === GROUP_SENDER_KEY_MESSAGE_TYPE) {
+			this.groupManager.handle(header, data).catch((e) => logger.error(`Group message ${header.txid} failed: ${e.message}`));
+			return;
+		}
+		if (header.type === KEY_SHARE_MESSAGE_TYPE) {
+			this.handleKeyShare(header, data).catch((e) => logger.error(`Key share ${header.txid} failed: ${e.message}`));
+			return;
+		}
+		if (this.firstContactIds.has(header.identifier.hex)) {
+			this.callFirstContactHandlers(header, data);
+			return;
+		}
+		this.eventBus.emit("KaspeakMessageReceived", { header, data });
+		this.identifierWatcher.dispatch(header, data);
+		if (header.prefix === this.prefixString) this.callWorker(header, data);
+	}
 }
@@ -17,6 +17,8 @@ export interface MessageClass<T extends BaseMessage = BaseMessage> {
 	messageType: number;
 	/** Indicates if the message requires encryption when transported. */
 	requiresEncryption: boolean;
+	/** Version of the encoded shape, 1 when omitted. */
+	schemaVersion?: number;
 }
 
 /**
@@ -71,15 +73,25 @@ export class MessageRegistry {
 	/**
 	 * Register a message constructor with an optional processing worker.
 	 *
-	 * If the same `messageType` is registered twice, the latest call overwrites
-	 * the previous entry.
+	 * Registering the same class again replaces its worker; registering a
+	 * different class under a taken `messageType` is rejected.
 	 *
 	 * @param ctor   - The message class to register.
 	 * @param worker - Optional handler that will process raw payloads of this
 	 *                 message type.
 	 * @returns `this` for fluent chaining.
+	 * @throws Error if the type belongs to another class, or the class has an
+	 *         invalid `schemaVersion`.
 	 */
 	register(ctor: MessageClass, worker?: WorkerFn): this {
+		const existing = this.classes[ctor.messageType];
+		if (existing && existing.cls !== ctor) {
+			throw new Error(`Message type ${ctor.messageType} is already registered by ${existing.cls.name}`);
+		}
+		const version = ctor.schemaVersion ?? 1;
+		if (!Number.isSafeInteger(version) || version < 1) {
+			throw new Error(`Invalid schemaVersion ${version} of ${ctor.name}`);
+		}
 		this.classes[ctor.messageType] = { cls: ctor, worker };
 		return this;
 	}
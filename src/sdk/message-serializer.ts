@@ -11,39 +11,83 @@
  *
  * • Encryption is applied only when the concrete message class signals
  *   {@link BaseMessage.requiresEncryption} **and** a key is provided.
- * • Decryption, decompression, and CBOR decoding all acts as error boundaries.
+ * • With `pad`, encrypted bodies are padded per
+ *   {@link BaseMessage.paddingPolicy} so the ciphertext length hides the
+ *   compressed length; only bodies flagged `PADDED` are unpadded.
+ * • Every stage comes from the {@link codecs} registry. Described messages
+ *   start with a codec descriptor and follow the class `codec` choice;
+ *   undescribed ones always use CBOR → Zstd → XChaCha20-Poly1305.
+ * • Decryption, decompression, and decoding all acts as error boundaries.
  *   Any failure produces an {@link UnknownMessage} so the caller can still
  *   progress without crashing.
  */
 
-import { decode as cborDecode, encode as cborEncode } from "cborg";
-import { compressZstd, decompressZstd } from "../utils/compression";
-import { randomBytes } from "../crypto";
-import { ZSTD_COMPRESSION_LEVEL } from "./constants";
-import { XChaCha20Poly1305 } from "@stablelib/xchacha20poly1305";
-import { BaseMessage, MessageHeader, UnknownMessage } from "../models";
+import { pad, unpad } from "../utils/padding";
+import { MAX_DATA_SIZE } from "./constants";
+import { BaseMessage, MessageHeader, PayloadFlag, SCHEMA_VERSION_KEY, UnknownMessage, validateSchema } from "../models";
 import { MessageRegistry } from "./message-registry";
+import { CODEC_DESCRIPTOR_SIZE, CUSTOM_CIPHER_ID, CodecDescriptor, MessageCompression, MessageEncryption, codecs } from "./codecs";
 import { logger } from "../utils/logger";
 
+/**
+ * Encryption layer used instead of the static-key XChaCha20-Poly1305 step,
+ * e.g. a {@link RatchetSession} deriving a new key per message.
+ */
+export interface MessageCipher {
+	seal(plaintext: Uint8Array): Uint8Array;
+	/** @returns The plaintext, or `null` when authentication fails. */
+	open(data: Uint8Array): Uint8Array | null | Promise<Uint8Array | null>;
+	/** Bytes `seal` adds to the plaintext; lets padding stay within one payload. */
+	overhead?: number;
+}
+
+export interface EncodeOptions {
+	/**
+	 * Prefix the data with a codec descriptor and honour the class `codec`
+	 * choice (default `false`). Receivers need the payload `CODEC` flag.
+	 */
+	describe?: boolean;
+	/**
+	 * Pad encrypted bodies per the class `paddingPolicy` (default `false`).
+	 * Receivers need the payload `PADDED` flag.
+	 */
+	pad?: boolean;
+	/**
+	 * Bytes the encoded data may take in one payload (default
+	 * `MAX_DATA_SIZE`); padding is clamped to it so it never forces chunking.
+	 */
+	capacity?: number;
+}
+
+/** Algorithms of undescribed messages. */
+const LEGACY_DESCRIPTOR: CodecDescriptor = { encoding: 0, compression: 1, cipher: 1 };
+
 export class MessageSerializer {
 	/**
 	 * Serialize a {@link BaseMessage} subclass to a `Uint8Array`.
 	 *
 	 * Steps:
-	 *  1. Convert the message to a plain JS object via `toPlainObject()`.
-	 *  2. Encode that object using CBOR (compact binary JSON-like format).
-	 *  3. Compress the resulting bytes with Zstandard.
-	 *  4. Optionally, encrypt the payload with XChaCha20-Poly1305
-	 *     (24-byte nonce + ciphertext) if the class requests encryption.
+	 *  1. Convert the message to a plain JS object via `toPlainObject()` and
+	 *     record `schemaVersion` in it when above 1.
+	 *  2. Encode that object (CBOR unless the class `codec` says otherwise).
+	 *  3. Compress the resulting bytes (Zstd, against the class dictionary if
+	 *     any; skipped by `"auto"` when it does not help).
+	 *  4. Optionally, pad the compressed bytes per `paddingPolicy` (with
+	 *     `options.pad`) and encrypt
+	 *     them with the class cipher (XChaCha20-Poly1305 by default) if the
+	 *     class requests encryption, or hand them to a {@link MessageCipher}
+	 *     passed as `key`.
+	 *  5. With `options.describe`, prepend the codec descriptor.
 	 *
 	 * @typeParam T - Concrete message type extending {@link BaseMessage}.
 	 * @param message - Message instance to encode.
-	 * @param key     - Optional encryption key; must be provided when
+	 * @param key     - Optional encryption key or cipher; must be provided when
 	 *                  `message.requiresEncryption` is `true`.
-	 * @throws Error  - When encryption is required but the key is missing.
+	 * @throws Error  - When encryption is required but the key is missing, or
+	 *                  the class names an unknown algorithm.
 	 * @returns Serialized bytes ready for transport.
 	 */
-	static async encode<T extends BaseMessage>(message: T, key?: Uint8Array): Promise<Uint8Array> {
+	static async encode<T extends BaseMessage>(message: T, key?: Uint8Array | MessageCipher, options: EncodeOptions = {}): Promise<Uint8Array> {
 		// Validate encryption parameters
 		if (message.requiresEncryption && !key) {
 			throw new Error(`Encryption key is required but not provided for ${typeof message}`);
@@ -51,41 +95,90 @@ export class MessageSerializer {
 		if (!message.requiresEncryption && key) {
 			logger.warn(`Message ${typeof message} does not require encryption, key is ignored.`);
 		}
+		const choice = options.describe ? message.codec : {};
+		const encoding = codecs.encoding(options.describe ? (choice.encoding ?? "cbor") : LEGACY_DESCRIPTOR.encoding);
 
-		// 1) Convert to a plain object
-		const plainObj = message.toPlainObject();
+		// 1) Convert to a plain object, tagged with its schema version
+		let plainObj = message.toPlainObject();
+		if (message.schemaVersion !== 1) {
+			if (typeof plainObj !== "object" || plainObj === null || Array.isArray(plainObj)) {
+				throw new Error(`Versioned message ${typeof message} must encode to an object`);
+			}
+			plainObj = { ...plainObj, [SCHEMA_VERSION_KEY]: message.schemaVersion };
+		}
 
-		// 2) Encode via CBOR
-		const cborBuf = cborEncode(plainObj);
+		// 2) Encode
+		const encoded = encoding.encode(plainObj);
 
 		// 3) Compress
-		const compressed = await compressZstd(cborBuf, ZSTD_COMPRESSION_LEVEL);
+		let compression: MessageCompression;
+		let compressed: Uint8Array;
+		const compressionOptions = { dictionary: choice.dictionary };
+		if (!options.describe || (choice.compression ?? "auto") === "auto") {
+			compression = codecs.compression(choice.dictionary === undefined ? "zstd" : "zstd-dict");
+			compressed = await compression.compress(encoded, compressionOptions);
+			if (options.describe && compressed.length >= encoded.length) {
+				compression = codecs.compression("none");
+				compressed = encoded;
+			}
+		} else {
+			compression = codecs.compression(choice.compression!);
+			compressed = await compression.compress(encoded, compressionOptions);
+		}
 
 		// 4) Encrypt if required
+		let cipherId = 0;
+		let body = compressed;
 		if (message.requiresEncryption && key) {
-			const nonce = randomBytes(24);
-			const aead = new XChaCha20Poly1305(key);
-			const ciphertext = aead.seal(nonce, compressed);
+			let seal: (plaintext: Uint8Array) => Uint8Array | Promise<Uint8Array>;
+			let overhead: number;
+			if (key instanceof Uint8Array) {
+				const cipher = codecs.cipher(options.describe ? (choice.cipher ?? "xchacha20-poly1305") : LEGACY_DESCRIPTOR.cipher);
+				if (key.length !== cipher.keySize) throw new Error(`${cipher.name} needs a ${cipher.keySize}-byte key, got ${key.length}`);
+				cipherId = cipher.id;
+				overhead = cipher.overhead ?? 0;
+				seal = (plaintext) => cipher.seal(key, plaintext);
+			} else {
+				cipherId = CUSTOM_CIPHER_ID;
+				overhead = key.overhead ?? 0;
+				seal = (plaintext) => key.seal(plaintext);
+			}
+			// Padding stops where it would push a single-payload message into chunks.
+			const limit = (options.capacity ?? MAX_DATA_SIZE) - overhead - (options.describe ? CODEC_DESCRIPTOR_SIZE : 0);
+			body = await seal(options.pad ? pad(compressed, message.paddingPolicy, limit) : compressed);
+		}
 
-			// Prepend nonce to ciphertext for transport
-			const combined = new Uint8Array(nonce.length + ciphertext.length);
-			combined.set(nonce, 0);
-			combined.set(ciphertext, nonce.length);
+		if (!options.describe) return body;
 
-			return combined;
-		} else {
-			return compressed;
-		}
+		// 5) Describe
+		const out = new Uint8Array(CODEC_DESCRIPTOR_SIZE + body.length);
+		out.set([encoding.id, compression.id, cipherId], 0);
+		out.set(body, CODEC_DESCRIPTOR_SIZE);
+		return out;
+	}
+
+	/**
+	 * Algorithm ids recorded in described data.
+	 *
+	 * @throws Error if `data` is shorter than a descriptor.
+	 */
+	static readDescriptor(data: Uint8Array): CodecDescriptor {
+		if (data.length < CODEC_DESCRIPTOR_SIZE) throw new Error("Data is shorter than a codec descriptor");
+		return { encoding: data[0], compression: data[1], cipher: data[2] };
 	}
 
 	/**
 	 * Deserialize raw bytes into an instance of the appropriate message class.
 	 *
 	 * The method is symmetric to {@link encode} and performs:
-	 *  1. (Optional) Decryption with XChaCha20-Poly1305.
-	 *  2. Decompression (Zstd).
-	 *  3. CBOR decoding.
-	 *  4. Hydration of the concrete class via its `fromPlainObject` method.
+	 *  0. Reading the codec descriptor when `header.flags` has `CODEC`.
+	 *  1. (Optional) Decryption, and removal of padding when `header.flags`
+	 *     has `PADDED`.
+	 *  2. Decompression.
+	 *  3. Decoding (CBOR unless described otherwise).
+	 *  4. Migration of older schema versions through the class `migrations`.
+	 *  5. Validation against the class `schema`, if any.
+	 *  6. Hydration of the concrete class via its `fromPlainObject` method.
 	 *
 	 * Reliability principle:
 	 *  Any error during the pipeline results in an {@link UnknownMessage}
@@ -96,13 +189,13 @@ export class MessageSerializer {
 	 * @param header          - Already parsed {@link MessageHeader} that came
 	 *                          with the raw payload.
 	 * @param data            - Raw bytes (possibly encrypted) to decode.
-	 * @param key             - Optional decryption key used for decryption when
-	 *                          the message class requires it.
+	 * @param key             - Optional decryption key or cipher used for
+	 *                          decryption when the message class requires it.
 	 * @returns Either a fully hydrated message instance or an
 	 *          {@link UnknownMessage} describing the failure reason.
 	 * @throws Error - When decryption is required but the key is missing.
 	 */
-	static async decode(messageRegistry: MessageRegistry, header: MessageHeader, data: Uint8Array, key?: Uint8Array): Promise<any> {
+	static async decode(messageRegistry: MessageRegistry, header: MessageHeader, data: Uint8Array, key?: Uint8Array | MessageCipher): Promise<any> {
 		let instance = messageRegistry.create(header.type);
 		instance.header = header;
 
@@ -114,16 +207,39 @@ export class MessageSerializer {
 			logger.warn(`Message ${typeof instance} does not require encryption, key is ignored.`);
 		}
 
+		/* ------------------------------------------------------------------
+		 * Phase 0 – Codec descriptor
+		 * -----------------------------------------------------------------*/
+		let descriptor = LEGACY_DESCRIPTOR;
+		let body = data;
+		let cipher: MessageEncryption | null = null;
+		let compression: MessageCompression;
+		let encoding;
+		try {
+			if ((header.flags ?? 0) & PayloadFlag.CODEC) {
+				descriptor = MessageSerializer.readDescriptor(data);
+				body = data.subarray(CODEC_DESCRIPTOR_SIZE);
+			}
+			if (descriptor.cipher !== 0 && descriptor.cipher !== CUSTOM_CIPHER_ID) cipher = codecs.cipher(descriptor.cipher);
+			compression = codecs.compression(descriptor.compression);
+			encoding = codecs.encoding(descriptor.encoding);
+		} catch (e: any) {
+			logger.warn(`Codec descriptor rejected for ${typeof instance}`, e);
+			return new UnknownMessage(data, `Unsupported codec: ${e.message}`, 7);
+		}
+
 		/* ------------------------------------------------------------------
 		 * Phase 1 – Decryption (if applicable)
 		 * -----------------------------------------------------------------*/
 		let plaintext: Uint8Array;
 		try {
 			if (instance.requiresEncryption && key) {
-				const nonce = data.slice(0, 24);
-				const ciphertext = data.slice(24);
-				const aead = new XChaCha20Poly1305(key);
-				const maybePlain = aead.open(nonce, ciphertext);
+				let maybePlain: Uint8Array | null;
+				if (key instanceof Uint8Array) {
+					maybePlain = cipher ? await cipher.open(key, body) : null;
+				} else {
+					maybePlain = await key.open(body);
+				}
 
 				if (!maybePlain) {
 					logger.warn(`Decryption failed: invalid key for ${typeof instance}`);
@@ -135,37 +251,66 @@ export class MessageSerializer {
 				}
 				plaintext = maybePlain;
 			} else {
-				plaintext = data;
+				plaintext = body;
 			}
 		} catch (e: any) {
 			logger.warn(`Decryption failed for ${typeof instance}`, e);
 			return new UnknownMessage(data, `Decryption failed: ${e.message}`, 2);
 		}
 
+		try {
+			if ((header.flags ?? 0) & PayloadFlag.PADDED) plaintext = unpad(plaintext);
+		} catch (e: any) {
+			logger.warn(`Padding removal failed for ${typeof instance}`, e);
+			return new UnknownMessage(data, `Padding removal failed: ${e.message}`, 6);
+		}
+
 		/* ------------------------------------------------------------------
 		 * Phase 2 – Decompression
 		 * -----------------------------------------------------------------*/
 		let decompressed: Uint8Array;
 		try {
-			decompressed = await decompressZstd(plaintext);
+			decompressed = await compression.decompress(plaintext);
 		} catch (e: any) {
 			logger.warn(`Decompress failed for ${typeof instance}`, e);
 			return new UnknownMessage(data, `Decompress failed: ${e.message}`, 3);
 		}
 
 		/* ------------------------------------------------------------------
-		 * Phase 3 – CBOR decoding
+		 * Phase 3 – Decoding
 		 * -----------------------------------------------------------------*/
 		let obj: any;
 		try {
-			obj = cborDecode(decompressed);
+			obj = encoding.decode(decompressed);
+		} catch (e: any) {
+			logger.warn(`${encoding.name} decode failed for ${typeof instance}`, e);
+			return new UnknownMessage(data, `${encoding.name.toUpperCase()} decode failed: ${e.message}`, 4);
+		}
+
+		/* ------------------------------------------------------------------
+		 * Phase 4 – Migration
+		 * -----------------------------------------------------------------*/
+		try {
+			obj = MessageSerializer.migrate(instance, obj);
 		} catch (e: any) {
-			logger.warn(`CBOR decode failed for ${typeof instance}`, e);
-			return new UnknownMessage(data, `CBOR decode failed: ${e.message}`, 4);
+			logger.warn(`Migration failed for ${typeof instance}`, e);
+			return new UnknownMessage(data, `Migration failed: ${e.message}`, 9);
+		}
+
+		/* ------------------------------------------------------------------
+		 * Phase 5 – Schema validation
+		 * -----------------------------------------------------------------*/
+		if (instance.schema) {
+			try {
+				validateSchema(instance.schema, obj);
+			} catch (e: any) {
+				logger.warn(`Schema validation failed for ${typeof instance}`, e);
+				return new UnknownMessage(data, `Schema validation failed: ${e.message}`, 8);
+			}
 		}
 
 		/* ------------------------------------------------------------------
-		 * Phase 4 – Hydration via fromPlainObject
+		 * Phase 6 – Hydration via fromPlainObject
 		 * -----------------------------------------------------------------*/
 		try {
 			if (typeof instance.fromPlainObject === "function") {
@@ -177,4 +322,24 @@ export class MessageSerializer {
 		}
 		return instance;
 	}
+
+	/**
+	 * Bring a decoded object to the schema version of `instance`.
+	 *
+	 * @throws Error if the object is newer than the class, or a migration
+	 *         step is missing or fails.
+	 */
+	private static migrate(instance: BaseMessage, obj: any): any {
+		const isObject = typeof obj === "object" && obj !== null && !Array.isArray(obj) && !(obj instanceof Uint8Array);
+		let version = isObject ? (obj[SCHEMA_VERSION_KEY] ?? 1) : 1;
+		if (!Number.isSafeInteger(version) || version < 1) throw new Error(`Invalid schema version ${version}`);
+		if (version > instance.schemaVersion) throw new Error(`Schema version ${version} is newer than ${instance.schemaVersion}`);
+		if (isObject) delete obj[SCHEMA_VERSION_KEY];
+		for (; version < instance.schemaVersion; version++) {
+			const migration = instance.migrations[version];
+			if (!migration) throw new Error(`No migration from schema version ${version}`);
+			obj = migration(obj);
+		}
+		return obj;
+	}
 }
@@ -0,0 +1,152 @@
+import type { KaspaTransport } from "../transport";
+import { logger } from "../utils/logger";
+
+/**
+ * Reconnection policy of {@link Kaspeak}.
+ */
+export interface ReconnectOptions {
+	/** Node URLs tried in turn after the connection drops. */
+	urls?: string[];
+	/**
+	 * Try the public resolver after the `urls` list (default `true`).
+	 * The resolver is always used when `urls` is empty.
+	 */
+	useResolver?: boolean;
+	/** Delay before the first attempt, in milliseconds (default 1000). */
+	initialDelayMs?: number;
+	/** Upper bound of the delay between attempts, in milliseconds (default 30000). */
+	maxDelayMs?: number;
+	/** Multiplier applied to the delay after each failed attempt (default 2). */
+	factor?: number;
+	/** Give up after this many failed attempts (default: never). */
+	maxAttempts?: number;
+}
+
+/**
+ * Payload of the `reconnecting` event.
+ */
+export interface ReconnectAttempt {
+	attempt: number;
+	delayMs: number;
+	/** Node the attempt will connect to; `undefined` means the resolver. */
+	url?: string;
+}
+
+/**
+ * Operations the supervisor delegates to its owner.
+ */
+export interface ReconnectHooks {
+	/** Tear down the current connection and connect to `url` (resolver when `undefined`). */
+	reconnect(url: string | undefined): Promise<void>;
+	/** Restore UTXO tracking and backfill missed blocks once the connection is back. */
+	restore(): Promise<void>;
+	onReconnecting(attempt: ReconnectAttempt): void;
+	onGiveUp(error: Error): void;
+}
+
+/**
+ * ReconnectSupervisor watches a {@link KaspaTransport} and brings the
+ * connection back after it drops.
+ *
+ * • Attempts are spaced with exponential backoff and rotate through the
+ *   configured node URLs, then the resolver.
+ * • If the transport recovers by itself while the supervisor is waiting
+ *   (e.g. the RPC client's own retry), only {@link ReconnectHooks.restore}
+ *   runs.
+ * • Connection changes caused by the supervisor's own attempts are ignored.
+ */
+export class ReconnectSupervisor {
+	private readonly candidates: (string | undefined)[];
+	private unsubscribe: (() => void) | null = null;
+	private running = false;
+	private attempting = false;
+	private timer: ReturnType<typeof setTimeout> | undefined;
+	private wake: (() => void) | null = null;
+
+	constructor(
+		private readonly transport: KaspaTransport,
+		private readonly options: ReconnectOptions,
+		private readonly hooks: ReconnectHooks
+	) {
+		const urls = options.urls ?? [];
+		this.candidates = urls.length === 0 || options.useResolver !== false ? [...urls, undefined] : [...urls];
+	}
+
+	/** Whether the supervisor is watching the transport. */
+	get isActive(): boolean {
+		return this.unsubscribe !== null;
+	}
+
+	/** Start watching the transport. Calling it twice has no effect. */
+	start(): void {
+		if (this.unsubscribe) return;
+		this.unsubscribe = this.transport.onConnectionChange((connected) => this.handleConnectionChange(connected));
+	}
+
+	/** Stop watching and abandon any pending attempt. */
+	stop(): void {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+		this.interruptDelay();
+	}
+
+	private handleConnectionChange(connected: boolean): void {
+		if (!this.unsubscribe || this.attempting) return;
+		if (!connected && !this.running) void this.run();
+		else if (connected && this.running) this.interruptDelay();
+	}
+
+	private async run(): Promise<void> {
+		const { initialDelayMs = 1_000, maxDelayMs = 30_000, factor = 2, maxAttempts = Infinity } = this.options;
+		this.running = true;
+		try {
+			for (let attempt = 1; this.unsubscribe; attempt++) {
+				const url = this.candidates[(attempt - 1) % this.candidates.length];
+				const delayMs = Math.min(initialDelayMs * factor ** (attempt - 1), maxDelayMs);
+				this.hooks.onReconnecting({ attempt, delayMs, url });
+				await this.delay(delayMs);
+				if (!this.unsubscribe) return;
+
+				if (!this.transport.isConnected) {
+					this.attempting = true;
+					try {
+						await this.hooks.reconnect(url);
+					} catch (e) {
+						const error = e instanceof Error ? e : new Error(String(e));
+						logger.warn(`Reconnect attempt ${attempt} to ${url ?? "resolver"} failed: ${error.message}`);
+						if (attempt >= maxAttempts) {
+							this.hooks.onGiveUp(error);
+							return;
+						}
+						continue;
+					} finally {
+						this.attempting = false;
+					}
+					// Stopped while connecting: the caller wants to stay offline.
+					if (!this.unsubscribe) {
+						await this.transport.disconnect().catch((e) => logger.warn(`Disconnect after stop failed: ${e.message}`));
+						return;
+					}
+				}
+
+				await this.hooks.restore();
+				return;
+			}
+		} finally {
+			this.running = false;
+		}
+	}
+
+	private delay(ms: number): Promise<void> {
+		return new Promise((resolve) => {
+			this.wake = resolve;
+			this.timer = setTimeout(resolve, ms);
+		});
+	}
+
+	private interruptDelay(): void {
+		clearTimeout(this.timer);
+		this.wake?.();
+		this.wake = null;
+	}
+}
@@ -0,0 +1,70 @@
+import { XChaCha20Poly1305 } from "@stablelib/xchacha20poly1305";
+import { bytesToHex, hexToBytes, randomBytes } from "../crypto/utils";
+import type { StateStore } from "./state-store";
+
+interface SealedValue {
+	/** nonce (24 bytes) | ciphertext, hex. */
+	$sealed: string;
+}
+
+/**
+ * {@link StateStore} wrapper that seals every value with XChaCha20-Poly1305
+ * before passing it to the inner store, so secrets never reach disk or
+ * IndexedDB in plaintext.
+ *
+ * • The entry key is authenticated as associated data, so a sealed value
+ *   cannot be moved under another key.
+ * • A plaintext value is an error, unless the store was created with
+ *   `migratePlaintext`: then it is read once and sealed in place, so state
+ *   written before encryption can be carried over.
+ */
+export class EncryptedStateStore implements StateStore {
+	readonly #key: Uint8Array;
+
+	/**
+	 * @param inner            Store that keeps the sealed values.
+	 * @param key              32-byte encryption key.
+	 * @param migratePlaintext Accept and re-seal plaintext values; enable only for the migrating run.
+	 */
+	constructor(
+		private readonly inner: StateStore,
+		key: Uint8Array,
+		private readonly migratePlaintext = false
+	) {
+		if (key.length !== 32) throw new RangeError(`State key must be 32 bytes, got ${key.length}`);
+		this.#key = new Uint8Array(key);
+	}
+
+	/** @throws Error if the value is plaintext (without `migratePlaintext`), was sealed under another key or modified. */
+	async get<T>(key: string): Promise<T | undefined> {
+		const stored = await this.inner.get<unknown>(key);
+		if (stored === undefined) return undefined;
+		if (!isSealed(stored)) {
+			if (!this.migratePlaintext) throw new Error(`State entry ${key} is not encrypted`);
+			await this.set(key, stored);
+			return stored as T;
+		}
+		const sealed = hexToBytes(stored.$sealed);
+		const plaintext = new XChaCha20Poly1305(this.#key).open(sealed.subarray(0, 24), sealed.subarray(24), new TextEncoder().encode(key));
+		if (!plaintext) throw new Error(`Cannot decrypt state entry ${key}`);
+		return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+	}
+
+	async set<T>(key: string, value: T): Promise<void> {
+		const nonce = randomBytes(24);
+		const plaintext = new TextEncoder().encode(JSON.stringify(value));
+		const ciphertext = new XChaCha20Poly1305(this.#key).seal(nonce, plaintext, new TextEncoder().encode(key));
+		const sealed = new Uint8Array(nonce.length + ciphertext.length);
+		sealed.set(nonce);
+		sealed.set(ciphertext, nonce.length);
+		await this.inner.set<SealedValue>(key, { $sealed: bytesToHex(sealed) });
+	}
+
+	async delete(key: string): Promise<void> {
+		await this.inner.delete(key);
+	}
+}
+
+function isSealed(value: unknown): value is SealedValue {
+	return typeof value === "object" && value !== null && typeof (value as SealedValue).$sealed === "string";
+}
@@ -0,0 +1,65 @@
+import type { StateStore } from "./state-store";
+
+/**
+ * {@link StateStore} backed by a single JSON file (Node.js only).
+ *
+ * The file is read once on first access and rewritten on every change via a
+ * temporary file and `rename`, so a crash never leaves a half-written file.
+ * Writes are serialized; concurrent `set` calls are applied in call order.
+ */
+export class FileStateStore implements StateStore {
+	private entries: Record<string, unknown> | null = null;
+	private writing: Promise<void> = Promise.resolve();
+
+	/**
+	 * @param path Location of the JSON file. Missing files are created on the
+	 *             first write; parent directories must exist.
+	 */
+	constructor(private readonly path: string) {}
+
+	async get<T>(key: string): Promise<T | undefined> {
+		const entries = await this.load();
+		return entries[key] as T | undefined;
+	}
+
+	async set<T>(key: string, value: T): Promise<void> {
+		const entries = await this.load();
+		entries[key] = JSON.parse(JSON.stringify(value));
+		await this.persist();
+	}
+
+	async delete(key: string): Promise<void> {
+		const entries = await this.load();
+		if (!(key in entries)) return;
+		delete entries[key];
+		await this.persist();
+	}
+
+	private async load(): Promise<Record<string, unknown>> {
+		if (this.entries) return this.entries;
+		const fs = await import("node:fs/promises");
+		try {
+			this.entries = JSON.parse(await fs.readFile(this.path, "utf8"));
+		} catch (e) {
+			const error: Error & { code?: string } = e instanceof Error ? e : new Error(String(e));
+			if (error.code !== "ENOENT") throw new Error(`Cannot read state file ${this.path}: ${error.message}`);
+			this.entries = {};
+		}
+		return this.entries!;
+	}
+
+	private persist(): Promise<void> {
+		const snapshot = JSON.stringify(this.entries);
+		// A failed write only fails its own caller; the next one starts afresh.
+		const write = this.writing
+			.catch(() => {})
+			.then(async () => {
+				const fs = await import("node:fs/promises");
+				const tmp = `${this.path}.tmp`;
+				await fs.writeFile(tmp, snapshot, "utf8");
+				await fs.rename(tmp, this.path);
+			});
+		this.writing = write;
+		return write;
+	}
+}
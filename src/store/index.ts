@@ -0,0 +1,5 @@
+export { MemoryStateStore } from "./state-store";
+export type { StateStore } from "./state-store";
+export { FileStateStore } from "./file-state-store";
+export { IndexedDbStateStore } from "./indexeddb-state-store";
+export { EncryptedStateStore } from "./encrypted-state-store";
@@ -0,0 +1,52 @@
+import type { StateStore } from "./state-store";
+
+/**
+ * {@link StateStore} backed by an IndexedDB object store (browser only).
+ *
+ * Each key is a separate record, so updates touch only the changed entry.
+ */
+export class IndexedDbStateStore implements StateStore {
+	private db: Promise<IDBDatabase> | null = null;
+
+	/**
+	 * @param dbName    IndexedDB database name.
+	 * @param storeName Object store inside the database.
+	 */
+	constructor(
+		private readonly dbName = "kaspeak",
+		private readonly storeName = "state"
+	) {}
+
+	async get<T>(key: string): Promise<T | undefined> {
+		return this.request<T | undefined>("readonly", (store) => store.get(key));
+	}
+
+	async set<T>(key: string, value: T): Promise<void> {
+		await this.request("readwrite", (store) => store.put(JSON.parse(JSON.stringify(value)), key));
+	}
+
+	async delete(key: string): Promise<void> {
+		await this.request("readwrite", (store) => store.delete(key));
+	}
+
+	private open(): Promise<IDBDatabase> {
+		if (this.db) return this.db;
+		if (typeof indexedDB === "undefined") throw new Error("IndexedDB is not available in this environment");
+		this.db = new Promise((resolve, reject) => {
+			const req = indexedDB.open(this.dbName, 1);
+			req.onupgradeneeded = () => req.result.createObjectStore(this.storeName);
+			req.onsuccess = () => resolve(req.result);
+			req.onerror = () => reject(req.error);
+		});
+		return this.db;
+	}
+
+	private async request<T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+		const db = await this.open();
+		return new Promise((resolve, reject) => {
+			const req = op(db.transaction(this.storeName, mode).objectStore(this.storeName));
+			req.onsuccess = () => resolve(req.result as T);
+			req.onerror = () => reject(req.error);
+		});
+	}
+}
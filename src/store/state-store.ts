@@ -0,0 +1,42 @@
+/**
+ * Key–value persistence used by {@link Kaspeak} to survive restarts.
+ *
+ * Values are JSON-compatible (objects, arrays, strings, numbers, booleans,
+ * `null`); callers encode `bigint` and binary data themselves. Implementations
+ * decide where the data lives:
+ *
+ *   • {@link MemoryStateStore}    – process memory (default, not persistent)
+ *   • {@link FileStateStore}      – a JSON file (Node.js)
+ *   • {@link IndexedDbStateStore} – an IndexedDB object store (browser)
+ */
+export interface StateStore {
+	/** Value stored under `key`, or `undefined` if there is none. */
+	get<T>(key: string): Promise<T | undefined>;
+	/** Store `value` under `key`, replacing any previous value. */
+	set<T>(key: string, value: T): Promise<void>;
+	/** Remove `key`; missing keys are ignored. */
+	delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory {@link StateStore}. State is lost when the process exits.
+ *
+ * Values are deep-copied through JSON so callers cannot mutate stored state
+ * by accident, matching the behaviour of the persistent stores.
+ */
+export class MemoryStateStore implements StateStore {
+	private entries = new Map<string, string>();
+
+	async get<T>(key: string): Promise<T | undefined> {
+		const raw = this.entries.get(key);
+		return raw === undefined ? undefined : (JSON.parse(raw) as T);
+	}
+
+	async set<T>(key: string, value: T): Promise<void> {
+		this.entries.set(key, JSON.stringify(value));
+	}
+
+	async delete(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+}
@@ -0,0 +1,15 @@
+export type {
+	KaspaTransport,
+	BlockDagInfo,
+	BlockHandler,
+	ConnectionHandler,
+	ServerInfo,
+	UtxoChange,
+	UtxoChangeHandler,
+	UtxoInfo,
+	VirtualChainChange,
+	VirtualChainHandler,
+	WalletBalance
+} from "./kaspa-transport";
+export { SimulatedNetwork, SimulatedTransport } from "./simulated-network";
+export type { SimulatedNetworkOptions } from "./simulated-network";
@@ -0,0 +1,189 @@
+import type { IBlock, Transaction, PublicKey } from "kaspa-wasm";
+import type { Signer } from "../crypto/signer";
+
+/**
+ * Subset of the node's block DAG info used by the SDK.
+ */
+export interface BlockDagInfo {
+	virtualDaaScore: bigint;
+	pruningPointHash: string;
+	sink: string;
+	tipHashes: string[];
+}
+
+/**
+ * Server description returned by {@link KaspaTransport.getServerInfo}.
+ */
+export interface ServerInfo {
+	serverVersion: string;
+	networkId: string;
+	isSynced: boolean;
+	virtualDaaScore: bigint;
+}
+
+/**
+ * Callback receiving every block added to the DAG after subscription.
+ */
+export type BlockHandler = (block: IBlock) => Promise<void>;
+
+/**
+ * Changes of the virtual selected-parent chain, with the transactions each
+ * added chain block accepted.
+ */
+export interface VirtualChainChange {
+	removedChainBlockHashes: string[];
+	addedChainBlockHashes: string[];
+	acceptedTransactionIds: { acceptingBlockHash: string; acceptedTransactionIds: string[] }[];
+}
+
+/**
+ * Callback receiving virtual chain changes after subscription.
+ */
+export type VirtualChainHandler = (change: VirtualChainChange) => void;
+
+/**
+ * Callback receiving connection state changes of a transport.
+ */
+export type ConnectionHandler = (connected: boolean) => void;
+
+/**
+ * Balance of the tracked addresses in sompi.
+ *
+ * • `mature`   – spendable now.
+ * • `pending`  – received, but not mature yet.
+ * • `outgoing` – being sent and not yet accepted by the network.
+ */
+export interface WalletBalance {
+	mature: bigint;
+	pending: bigint;
+	outgoing: bigint;
+	/** Mature and pending UTXOs together. */
+	utxoCount: number;
+}
+
+/** UTXO of a tracked address. */
+export interface UtxoInfo {
+	txid: string;
+	index: number;
+	address: string;
+	amount: bigint;
+	blockDaaScore: bigint;
+	isCoinbase: boolean;
+	/** `false` while the UTXO is pending. */
+	mature: boolean;
+}
+
+/**
+ * Change of the tracked UTXO set.
+ *
+ * • `incoming` – funds received from another wallet.
+ * • `outgoing` – funds we sent.
+ * • `change`   – change of our own transaction coming back.
+ * • `external` – our UTXOs spent by another wallet holding the same key.
+ * • `reorg`    – UTXOs removed again by a reorg.
+ */
+export interface UtxoChange {
+	type: "incoming" | "outgoing" | "change" | "external" | "reorg";
+	/** `pending` when first seen, `mature` once spendable. */
+	state: "pending" | "mature";
+	txid: string;
+	/** Amount moved, in sompi. */
+	amount: bigint;
+	/** Balance after the change. */
+	balance: WalletBalance;
+}
+
+/**
+ * Callback receiving changes of the tracked UTXO set.
+ */
+export type UtxoChangeHandler = (change: UtxoChange) => void;
+
+/**
+ * Everything {@link Kaspeak} needs from the Kaspa network.
+ *
+ * Implementations:
+ *   • {@link KaspaWasm}          – a real node through `kaspa-wasm` RPC
+ *   • {@link SimulatedTransport} – an in-process {@link SimulatedNetwork}
+ *
+ * Transactions are `kaspa-wasm` {@link Transaction} objects in both cases so
+ * that outpoint handling and payload signing stay identical.
+ */
+export interface KaspaTransport {
+	readonly isConnected: boolean;
+	readonly networkId: string;
+	readonly url: string | undefined;
+
+	connect(networkId?: string, url?: string): Promise<void>;
+	disconnect(): Promise<void>;
+	getServerInfo(): Promise<ServerInfo>;
+
+	/**
+	 * Register a handler for connection state changes, including drops the
+	 * caller did not request.
+	 *
+	 * @returns Function that removes the handler.
+	 */
+	onConnectionChange(cb: ConnectionHandler): () => void;
+
+	/**
+	 * Register a handler for added blocks.
+	 *
+	 * @returns Function that removes the handler.
+	 */
+	subscribe(cb: BlockHandler): () => void;
+
+	/**
+	 * Register a handler for virtual chain changes. The node subscription is
+	 * only active while at least one handler is registered.
+	 *
+	 * @returns Function that removes the handler.
+	 */
+	subscribeVirtualChain(cb: VirtualChainHandler): () => void;
+
+	/**
+	 * Selected-chain changes since `startHash`, with the transactions each
+	 * added chain block accepted. Used to catch up on acceptance missed while
+	 * disconnected.
+	 */
+	getVirtualChainFromBlock(startHash: string): Promise<VirtualChainChange>;
+
+	/** Blocks in the future of `lowHash`, the block itself included. */
+	getBlocks(lowHash: string): Promise<IBlock[]>;
+	getBlockDagInfo(): Promise<BlockDagInfo>;
+
+	/**
+	 * Start tracking UTXOs of `address`, or of several funding addresses;
+	 * required before {@link createTransaction}, which spends from all of them.
+	 */
+	startUtxoMonitoring(address: string | string[]): Promise<void>;
+	/** Stop UTXO tracking. */
+	stop(): Promise<void>;
+	/** Sum of the UTXOs of `addresses` as the node reports them, in sompi. */
+	getBalance(addresses: string | string[]): Promise<{ balanceSompi: bigint; utxoCount: number }>;
+	/** Balance of the tracked addresses, or `null` while UTXOs are not tracked. */
+	getTrackedBalance(): WalletBalance | null;
+	/** UTXOs of the tracked addresses, pending ones included. */
+	listUtxos(): UtxoInfo[];
+	/**
+	 * Register a handler for changes of the tracked UTXO set. Handlers stay
+	 * registered when tracking stops and restarts.
+	 *
+	 * @returns Function that removes the handler.
+	 */
+	onUtxoChange(cb: UtxoChangeHandler): () => void;
+	/** Resolves on the next change of the tracked UTXO set, or after `timeoutMs`. */
+	waitForUtxoChange(timeoutMs: number): Promise<void>;
+
+	createTransaction(myAddress: string, destination: string, payloadSizeBytes: bigint, priorityFeeSompi?: bigint): Promise<Transaction>;
+	/**
+	 * Fee paid by a transaction built with {@link createTransaction}, in sompi.
+	 *
+	 * @throws Error if the spent amounts are unknown.
+	 */
+	getTransactionFee(tx: Transaction): bigint;
+	/** Attach `payload`, sign with `signer` and submit; resolves to the txid. */
+	sendTransaction(tx: Transaction, signer: Signer, payload?: string): Promise<string>;
+
+	getAddressFromPublicKey(pub: string | Uint8Array | PublicKey): string;
+	getPublicKeyFromPrivateKey(privateKey: bigint | number): PublicKey;
+}
@@ -0,0 +1,592 @@
+import * as kaspa from "kaspa-wasm";
+import type { IBlock, ITransaction, ITransactionOutput } from "kaspa-wasm";
+import { DEFAULT_NETWORK_ID } from "../sdk/constants";
+import { bytesToHex, sha256FromString } from "../crypto/utils";
+import { addressFromPublicKey, publicKeyFromPrivateKey } from "../wasm/kaspa";
+import { logger } from "../utils/logger";
+import type { Signer } from "../crypto/signer";
+import type {
+	BlockDagInfo,
+	BlockHandler,
+	ConnectionHandler,
+	KaspaTransport,
+	ServerInfo,
+	UtxoChange,
+	UtxoChangeHandler,
+	UtxoInfo,
+	VirtualChainChange,
+	VirtualChainHandler,
+	WalletBalance
+} from "./kaspa-transport";
+
+const ZERO_HASH = "00".repeat(32);
+const SUBNETWORK_ID = "00".repeat(20);
+const GENESIS_TIMESTAMP = 1_700_000_000_000n;
+const BLOCK_INTERVAL_MS = 100n;
+
+export interface SimulatedNetworkOptions {
+	/** Network id reported to transports; `connect()` with another id fails. */
+	networkId?: string;
+	/** Fee of a transaction without payload, in sompi. Each payload byte adds 1 sompi. */
+	baseFeeSompi?: bigint;
+	/** Maximum number of blocks returned by one `getBlocks` call. */
+	pageSize?: number;
+}
+
+interface SimulatedUtxo {
+	txid: string;
+	index: number;
+	address: string;
+	amount: bigint;
+	daaScore: bigint;
+}
+
+interface PreparedTransaction {
+	tx: ITransaction;
+	spent: SimulatedUtxo[];
+	feeSompi: bigint;
+}
+
+/**
+ * SimulatedNetwork
+ *
+ * Deterministic in-process stand-in for a Kaspa node. Several SDK instances
+ * attached through {@link createTransport} share one linear chain of blocks,
+ * one mempool and one UTXO set, so full send/receive flows run without a
+ * network.
+ *
+ * Model
+ * -----
+ *   - Blocks are minted explicitly with {@link mineBlock} (or on a timer with
+ *     {@link startMining}); each one raises the DAA score by 1 and carries the
+ *     whole mempool.
+ *   - Block hashes, txids and timestamps derive from counters, so two runs of
+ *     the same script produce the same DAG.
+ *   - Every block is a chain block that accepts its own transactions;
+ *     {@link orphanBlocks} removes blocks from the chain to exercise reorgs.
+ *   - Submitted transactions update the UTXO set immediately, so change
+ *     outputs can be spent before they are mined. UTXOs are therefore
+ *     never pending, and UTXO changes are reported as `mature` at once.
+ *   - Coins come from {@link fund}; there is no mining reward.
+ */
+export class SimulatedNetwork {
+	readonly networkId: string;
+	private readonly baseFeeSompi: bigint;
+	private readonly pageSize: number;
+
+	private readonly blocks: IBlock[] = [];
+	private readonly blockIndex = new Map<string, number>();
+	private mempool: ITransaction[] = [];
+	private readonly utxos = new Map<string, SimulatedUtxo>();
+	private readonly transports = new Set<SimulatedTransport>();
+	private txCounter = 0;
+	private blockCounter = 0;
+	private miningTimer: ReturnType<typeof setInterval> | undefined;
+
+	constructor(options: SimulatedNetworkOptions = {}) {
+		this.networkId = options.networkId ?? DEFAULT_NETWORK_ID;
+		this.baseFeeSompi = options.baseFeeSompi ?? 1_000n;
+		this.pageSize = options.pageSize ?? 100;
+		this.appendBlock([]);
+	}
+
+	/** New transport attached to this network. */
+	createTransport(): SimulatedTransport {
+		return new SimulatedTransport(this);
+	}
+
+	/** Latest block. */
+	get tip(): IBlock {
+		return this.blocks[this.blocks.length - 1];
+	}
+
+	/** DAA score of the latest block. */
+	get daaScore(): bigint {
+		return this.tip.header.daaScore;
+	}
+
+	/** Transactions waiting for the next block. */
+	get mempoolSize(): number {
+		return this.mempool.length;
+	}
+
+	/**
+	 * Credit `amountSompi` to `address` through a funding transaction that is
+	 * spendable at once and included in the next block.
+	 *
+	 * @returns The funding txid.
+	 */
+	fund(address: string, amountSompi: bigint): string {
+		if (amountSompi <= 0n) throw new RangeError("amount must be positive");
+		const txid = this.nextTxid("fund");
+		const tx = this.buildTransaction(txid, [], [{ address, amount: amountSompi }], "");
+		this.accept(tx, [], [{ txid, index: 0, address, amount: amountSompi, daaScore: this.daaScore }]);
+		return txid;
+	}
+
+	/**
+	 * Mint a block with every mempool transaction and deliver it to the
+	 * subscribers of all connected transports.
+	 *
+	 * @returns The new block, after every subscriber has processed it.
+	 */
+	async mineBlock(): Promise<IBlock> {
+		const block = this.appendBlock(this.mempool);
+		this.mempool = [];
+		await Promise.all([...this.transports].map((t) => t.deliver(block)));
+		this.notifyChainChange({
+			removedChainBlockHashes: [],
+			addedChainBlockHashes: [block.header.hash],
+			acceptedTransactionIds: [{ acceptingBlockHash: block.header.hash, acceptedTransactionIds: block.verboseData!.transactionIds }]
+		});
+		return block;
+	}
+
+	/**
+	 * Remove the latest `count` blocks from the chain, as a reorg would. Their
+	 * transactions go back to the mempool and are accepted again by the next
+	 * mined block; the UTXO set is left untouched.
+	 *
+	 * @returns Hashes of the removed blocks, newest first.
+	 */
+	orphanBlocks(count: number): string[] {
+		if (count < 1 || count >= this.blocks.length) throw new RangeError(`count must be between 1 and ${this.blocks.length - 1}`);
+		const removed = this.blocks.splice(this.blocks.length - count);
+		for (const block of removed) this.blockIndex.delete(block.header.hash);
+		this.tip.verboseData!.childrenHashes = [];
+		this.mempool = [...removed.flatMap((b) => b.transactions), ...this.mempool];
+		const hashes = removed.map((b) => b.header.hash).reverse();
+		this.notifyChainChange({ removedChainBlockHashes: hashes, addedChainBlockHashes: [], acceptedTransactionIds: [] });
+		return hashes;
+	}
+
+	/** Mint `count` blocks one after another. */
+	async mineBlocks(count: number): Promise<IBlock[]> {
+		const blocks: IBlock[] = [];
+		for (let i = 0; i < count; i++) blocks.push(await this.mineBlock());
+		return blocks;
+	}
+
+	/** Mint a block every `intervalMs` milliseconds until {@link stopMining}. */
+	startMining(intervalMs = Number(BLOCK_INTERVAL_MS)): void {
+		this.stopMining();
+		this.miningTimer = setInterval(() => void this.mineBlock(), intervalMs);
+	}
+
+	stopMining(): void {
+		clearInterval(this.miningTimer);
+		this.miningTimer = undefined;
+	}
+
+	/* ------------------------- Transport internals ------------------------- */
+
+	/** @internal */
+	attach(transport: SimulatedTransport): void {
+		this.transports.add(transport);
+	}
+
+	/** @internal */
+	detach(transport: SimulatedTransport): void {
+		this.transports.delete(transport);
+	}
+
+	/** @internal */
+	getBlocks(lowHash: string): IBlock[] {
+		const index = this.blockIndex.get(lowHash);
+		if (index === undefined) throw new Error(`Block ${lowHash} not found`);
+		return this.blocks.slice(index, index + this.pageSize);
+	}
+
+	/** @internal */
+	getVirtualChainFromBlock(startHash: string): VirtualChainChange {
+		const index = this.blockIndex.get(startHash);
+		if (index === undefined) throw new Error(`Block ${startHash} not found`);
+		const added = this.blocks.slice(index + 1);
+		return {
+			removedChainBlockHashes: [],
+			addedChainBlockHashes: added.map((b) => b.header.hash),
+			acceptedTransactionIds: added.map((b) => ({ acceptingBlockHash: b.header.hash, acceptedTransactionIds: b.verboseData!.transactionIds }))
+		};
+	}
+
+	/** @internal */
+	getBlockDagInfo(): BlockDagInfo {
+		return {
+			virtualDaaScore: this.daaScore + 1n,
+			pruningPointHash: this.blocks[0].header.hash,
+			sink: this.tip.header.hash,
+			tipHashes: [this.tip.header.hash]
+		};
+	}
+
+	/** @internal */
+	utxosOf(addresses: string[]): SimulatedUtxo[] {
+		return [...this.utxos.values()].filter((u) => addresses.includes(u.address));
+	}
+
+	/** @internal */
+	prepare(addresses: string[], changeAddress: string, payloadSizeBytes: bigint, priorityFeeSompi: bigint): PreparedTransaction {
+		const feeSompi = this.baseFeeSompi + payloadSizeBytes + priorityFeeSompi;
+		const spent: SimulatedUtxo[] = [];
+		let total = 0n;
+		for (const utxo of this.utxosOf(addresses)) {
+			if (total >= feeSompi) break;
+			spent.push(utxo);
+			total += utxo.amount;
+		}
+		if (total < feeSompi) throw new Error(`Insufficient funds: ${total} sompi available, ${feeSompi} required`);
+		const outputs = total > feeSompi ? [{ address: changeAddress, amount: total - feeSompi }] : [];
+		return { tx: this.buildTransaction("", spent, outputs, ""), spent, feeSompi };
+	}
+
+	/** @internal */
+	submit(prepared: PreparedTransaction, owners: string[], payload: string): string {
+		for (const utxo of prepared.spent) {
+			if (!this.utxos.has(outpointKey(utxo.txid, utxo.index))) throw new Error(`UTXO ${utxo.txid}:${utxo.index} is already spent`);
+			if (!owners.includes(utxo.address)) throw new Error(`UTXO ${utxo.txid}:${utxo.index} does not belong to the signing key`);
+		}
+		const txid = this.nextTxid(payload);
+		const outputs = prepared.tx.outputs.map((o, index) => ({
+			txid,
+			index,
+			address: o.verboseData!.scriptPublicKeyAddress,
+			amount: o.value,
+			daaScore: this.daaScore
+		}));
+		const tx = this.buildTransaction(txid, prepared.spent, outputs, payload);
+		this.accept(tx, prepared.spent, outputs);
+		return txid;
+	}
+
+	/* ------------------------------- Helpers ------------------------------- */
+
+	private notifyChainChange(change: VirtualChainChange): void {
+		for (const transport of this.transports) transport.deliverChainChange(change);
+	}
+
+	private accept(tx: ITransaction, spent: SimulatedUtxo[], created: SimulatedUtxo[]): void {
+		for (const utxo of spent) this.utxos.delete(outpointKey(utxo.txid, utxo.index));
+		for (const utxo of created) this.utxos.set(outpointKey(utxo.txid, utxo.index), utxo);
+		this.mempool.push(tx);
+		for (const transport of this.transports) transport.deliverUtxoChange(tx.verboseData!.transactionId, spent, created);
+	}
+
+	private nextTxid(seed: string): string {
+		return bytesToHex(sha256FromString(`tx:${this.txCounter++}:${seed}`));
+	}
+
+	private buildTransaction(
+		txid: string,
+		inputs: SimulatedUtxo[],
+		outputs: { address: string; amount: bigint }[],
+		payload: string
+	): ITransaction {
+		return {
+			version: 0,
+			inputs: inputs.map((u) => ({
+				previousOutpoint: { transactionId: u.txid, index: u.index },
+				signatureScript: "",
+				sequence: 0n,
+				sigOpCount: 1
+			})),
+			outputs: outputs.map(
+				(o): ITransactionOutput => ({
+					value: o.amount,
+					scriptPublicKey: { version: 0, script: "" },
+					verboseData: { scriptPublicKeyType: "pubkey", scriptPublicKeyAddress: o.address }
+				})
+			),
+			lockTime: 0n,
+			subnetworkId: SUBNETWORK_ID,
+			gas: 0n,
+			payload,
+			verboseData: { transactionId: txid, hash: txid, computeMass: 0n, blockHash: "", blockTime: 0n }
+		};
+	}
+
+	private appendBlock(transactions: ITransaction[]): IBlock {
+		const parent = this.blocks[this.blocks.length - 1];
+		const daaScore = parent ? parent.header.daaScore + 1n : 0n;
+		const parentHash = parent?.header.hash ?? ZERO_HASH;
+		const hash = bytesToHex(sha256FromString(`block:${this.networkId}:${parentHash}:${daaScore}:${this.blockCounter++}`));
+		const timestamp = GENESIS_TIMESTAMP + daaScore * BLOCK_INTERVAL_MS;
+		for (const tx of transactions) {
+			tx.verboseData!.blockHash = hash;
+			tx.verboseData!.blockTime = timestamp;
+		}
+		const block: IBlock = {
+			header: {
+				hash,
+				version: 1,
+				parentsByLevel: parent ? [[parentHash]] : [],
+				hashMerkleRoot: ZERO_HASH,
+				acceptedIdMerkleRoot: ZERO_HASH,
+				utxoCommitment: ZERO_HASH,
+				timestamp,
+				bits: 0,
+				nonce: 0n,
+				daaScore,
+				blueWork: daaScore,
+				blueScore: daaScore,
+				pruningPoint: this.blocks[0]?.header.hash ?? ZERO_HASH
+			},
+			transactions,
+			verboseData: {
+				hash,
+				difficulty: 1,
+				selectedParentHash: parentHash,
+				transactionIds: transactions.map((tx) => tx.verboseData!.transactionId),
+				isHeaderOnly: false,
+				blueScore: Number(daaScore),
+				childrenHashes: [],
+				mergeSetBluesHashes: parent ? [parentHash] : [],
+				mergeSetRedsHashes: [],
+				isChainBlock: true
+			}
+		};
+		if (parent) parent.verboseData!.childrenHashes.push(hash);
+		this.blockIndex.set(hash, this.blocks.length);
+		this.blocks.push(block);
+		return block;
+	}
+}
+
+function outpointKey(txid: string, index: number): string {
+	return `${txid}:${index}`;
+}
+
+/**
+ * {@link KaspaTransport} connected to a {@link SimulatedNetwork}.
+ * Create instances with {@link SimulatedNetwork.createTransport}.
+ */
+export class SimulatedTransport implements KaspaTransport {
+	private _connected = false;
+	private monitoredAddresses: string[] | null = null;
+	private readonly eventHandlers = new Set<BlockHandler>();
+	private readonly connectionHandlers = new Set<ConnectionHandler>();
+	private readonly chainHandlers = new Set<VirtualChainHandler>();
+	private readonly utxoHandlers = new Set<UtxoChangeHandler>();
+	private readonly prepared = new WeakMap<kaspa.Transaction, PreparedTransaction>();
+
+	constructor(private readonly network: SimulatedNetwork) {}
+
+	get isConnected(): boolean {
+		return this._connected;
+	}
+
+	get networkId(): string {
+		return this.network.networkId;
+	}
+
+	get url(): string | undefined {
+		return this._connected ? `sim://${this.network.networkId}` : undefined;
+	}
+
+	async connect(networkId?: string): Promise<void> {
+		if (networkId && networkId !== this.network.networkId)
+			throw new Error(`Simulated network is ${this.network.networkId}, cannot connect to ${networkId}`);
+		this._connected = true;
+		this.network.attach(this);
+		this.notifyConnectionChange(true);
+	}
+
+	async disconnect(): Promise<void> {
+		await this.stop();
+		this.drop();
+	}
+
+	/**
+	 * Cut the connection as if the node went away: blocks mined from now on
+	 * are not delivered and handlers see a disconnect. UTXO tracking survives,
+	 * like a real processor waiting for the node to come back.
+	 */
+	simulateDisconnect(): void {
+		this.drop();
+	}
+
+	onConnectionChange(cb: ConnectionHandler): () => void {
+		this.connectionHandlers.add(cb);
+		return () => this.connectionHandlers.delete(cb);
+	}
+
+	async getServerInfo(): Promise<ServerInfo> {
+		this.ensureConnected();
+		return {
+			serverVersion: "simulated",
+			networkId: this.network.networkId,
+			isSynced: true,
+			virtualDaaScore: this.network.daaScore + 1n
+		};
+	}
+
+	subscribe(cb: BlockHandler): () => void {
+		this.eventHandlers.add(cb);
+		return () => this.eventHandlers.delete(cb);
+	}
+
+	subscribeVirtualChain(cb: VirtualChainHandler): () => void {
+		this.chainHandlers.add(cb);
+		return () => this.chainHandlers.delete(cb);
+	}
+
+	async getBlocks(lowHash: string): Promise<IBlock[]> {
+		this.ensureConnected();
+		return this.network.getBlocks(lowHash);
+	}
+
+	async getVirtualChainFromBlock(startHash: string): Promise<VirtualChainChange> {
+		this.ensureConnected();
+		return this.network.getVirtualChainFromBlock(startHash);
+	}
+
+	async getBlockDagInfo(): Promise<BlockDagInfo> {
+		this.ensureConnected();
+		return this.network.getBlockDagInfo();
+	}
+
+	async startUtxoMonitoring(address: string | string[]): Promise<void> {
+		this.ensureConnected();
+		this.monitoredAddresses ??= Array.isArray(address) ? address : [address];
+	}
+
+	async stop(): Promise<void> {
+		this.monitoredAddresses = null;
+	}
+
+	async getBalance(addresses: string | string[]): Promise<{ balanceSompi: bigint; utxoCount: number }> {
+		this.ensureConnected();
+		const entries = this.network.utxosOf(Array.isArray(addresses) ? addresses : [addresses]);
+		return { balanceSompi: entries.reduce((s, u) => s + u.amount, 0n), utxoCount: entries.length };
+	}
+
+	getTrackedBalance(): WalletBalance | null {
+		if (!this.monitoredAddresses) return null;
+		const entries = this.network.utxosOf(this.monitoredAddresses);
+		return { mature: entries.reduce((s, u) => s + u.amount, 0n), pending: 0n, outgoing: 0n, utxoCount: entries.length };
+	}
+
+	listUtxos(): UtxoInfo[] {
+		if (!this.monitoredAddresses) return [];
+		return this.network.utxosOf(this.monitoredAddresses).map((u) => ({
+			txid: u.txid,
+			index: u.index,
+			address: u.address,
+			amount: u.amount,
+			blockDaaScore: u.daaScore,
+			isCoinbase: false,
+			mature: true
+		}));
+	}
+
+	onUtxoChange(cb: UtxoChangeHandler): () => void {
+		this.utxoHandlers.add(cb);
+		return () => this.utxoHandlers.delete(cb);
+	}
+
+	/** Submitted transactions update the simulated UTXO set at once, so there is nothing to wait for. */
+	async waitForUtxoChange(_timeoutMs: number): Promise<void> {}
+
+	async createTransaction(
+		myAddress: string,
+		_destination: string,
+		payloadSizeBytes: bigint,
+		priorityFeeSompi: bigint = 0n
+	): Promise<kaspa.Transaction> {
+		if (!this.monitoredAddresses) throw new Error("call start(address) first");
+		const prepared = this.network.prepare(this.monitoredAddresses, myAddress, payloadSizeBytes, priorityFeeSompi);
+		const tx = new kaspa.Transaction(prepared.tx);
+		this.prepared.set(tx, prepared);
+		return tx;
+	}
+
+	getTransactionFee(tx: kaspa.Transaction): bigint {
+		const prepared = this.prepared.get(tx);
+		if (!prepared) throw new Error("Transaction was not created by this transport");
+		return prepared.feeSompi;
+	}
+
+	async sendTransaction(tx: kaspa.Transaction, signer: Signer, payload?: string): Promise<string> {
+		this.ensureConnected();
+		const prepared = this.prepared.get(tx);
+		if (!prepared) throw new Error("Transaction was not created by this transport");
+		this.prepared.delete(tx);
+		// Simulated inputs carry no UTXO entries to sign; the signer only names the owners.
+		const owners = (signer.fundingPublicKeys ?? [signer.publicKey]).map((key) => this.getAddressFromPublicKey(key));
+		return this.network.submit(prepared, owners, payload ?? "");
+	}
+
+	getAddressFromPublicKey(pub: string | Uint8Array | kaspa.PublicKey): string {
+		return addressFromPublicKey(pub, this.network.networkId);
+	}
+
+	getPublicKeyFromPrivateKey(privateKey: bigint | number): kaspa.PublicKey {
+		return publicKeyFromPrivateKey(privateKey);
+	}
+
+	/** @internal */
+	async deliver(block: IBlock): Promise<void> {
+		await Promise.all(
+			[...this.eventHandlers].map((handler) => handler(block).catch((err) => logger.error("subscriber callback error:", err)))
+		);
+	}
+
+	/** @internal */
+	deliverChainChange(change: VirtualChainChange): void {
+		for (const handler of this.chainHandlers) {
+			try {
+				handler(change);
+			} catch (err) {
+				logger.error("virtual chain handler error:", err);
+			}
+		}
+	}
+
+	/**
+	 * @internal
+	 * Report a transaction touching the tracked addresses: spending from them
+	 * makes it `outgoing` (net of the change), otherwise it is `incoming`.
+	 */
+	deliverUtxoChange(txid: string, spent: SimulatedUtxo[], created: SimulatedUtxo[]): void {
+		const tracked = this.monitoredAddresses;
+		if (!tracked) return;
+		const sum = (utxos: SimulatedUtxo[]) => utxos.filter((u) => tracked.includes(u.address)).reduce((s, u) => s + u.amount, 0n);
+		const sent = sum(spent);
+		const received = sum(created);
+		if (!sent && !received) return;
+		const change: UtxoChange = {
+			type: sent ? "outgoing" : "incoming",
+			state: "mature",
+			txid,
+			amount: sent ? sent - received : received,
+			balance: this.getTrackedBalance()!
+		};
+		for (const handler of this.utxoHandlers) {
+			try {
+				handler(change);
+			} catch (err) {
+				logger.error("UTXO change handler error:", err);
+			}
+		}
+	}
+
+	private drop(): void {
+		this.network.detach(this);
+		if (!this._connected) return;
+		this._connected = false;
+		this.notifyConnectionChange(false);
+	}
+
+	private notifyConnectionChange(connected: boolean): void {
+		for (const handler of this.connectionHandlers) {
+			try {
+				handler(connected);
+			} catch (err) {
+				logger.error("connection handler error:", err);
+			}
+		}
+	}
+
+	private ensureConnected(): void {
+		if (!this._connected) throw new Error("Simulated transport is not connected.");
+	}
+}
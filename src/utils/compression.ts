@@ -1,7 +1,11 @@
-import { compress, decompress, init } from "@bokuweb/zstd-wasm";
+import { compress, compressUsingDict, createCCtx, createDCtx, decompress, decompressUsingDict, freeCCtx, freeDCtx, init } from "@bokuweb/zstd-wasm";
+import { encode as cborEncode } from "cborg";
 
 let zstdInitialized = false;
 
+/** Length of the byte runs counted while training a dictionary. */
+const DICTIONARY_SEGMENT_SIZE = 8;
+
 export async function ensureZstdInitialized(): Promise<void> {
 	if (!zstdInitialized) {
 		await init();
@@ -18,3 +22,101 @@ export async function decompressZstd(data: Uint8Array): Promise<Uint8Array> {
 	await ensureZstdInitialized();
 	return decompress(data);
 }
+
+/** Compress `data` against a shared dictionary; the receiver needs the same one. */
+export async function compressZstdWithDictionary(data: Uint8Array, dictionary: Uint8Array, level = 5): Promise<Uint8Array> {
+	await ensureZstdInitialized();
+	const cctx = createCCtx();
+	try {
+		return compressUsingDict(cctx, data, dictionary, level);
+	} finally {
+		freeCCtx(cctx);
+	}
+}
+
+export async function decompressZstdWithDictionary(data: Uint8Array, dictionary: Uint8Array): Promise<Uint8Array> {
+	await ensureZstdInitialized();
+	const dctx = createDCtx();
+	try {
+		return decompressUsingDict(dctx, data, dictionary);
+	} finally {
+		freeDCtx(dctx);
+	}
+}
+
+/**
+ * Build a raw-content Zstd dictionary from sample messages with a
+ * substring-frequency heuristic. This is not Zstd's dictionary trainer
+ * (ZDICT/COVER): it counts the 8-byte substrings each sample contains,
+ * merges those found in several samples into runs — map keys, constant
+ * fields, common values — and concatenates the best-scoring runs, most
+ * frequent last so Zstd reaches them with the shortest offsets.
+ *
+ * Samples are `toPlainObject()` outputs (CBOR-encoded here) or already
+ * encoded bytes.
+ *
+ * @param maxSize - Upper bound of the dictionary length in bytes.
+ * @throws Error if the samples have nothing in common.
+ */
+export function buildSubstringDictionary(samples: any[], maxSize = 4096): Uint8Array {
+	const buffers = samples.map((s) => (s instanceof Uint8Array ? s : cborEncode(s)));
+	const minCount = buffers.length > 1 ? 2 : 1;
+
+	// How many samples contain each segment
+	const counts = new Map<string, number>();
+	for (const buf of buffers) {
+		const seen = new Set<string>();
+		for (let i = 0; i + DICTIONARY_SEGMENT_SIZE <= buf.length; i++) {
+			const key = latin1(buf.subarray(i, i + DICTIONARY_SEGMENT_SIZE));
+			if (seen.has(key)) continue;
+			seen.add(key);
+			counts.set(key, (counts.get(key) ?? 0) + 1);
+		}
+	}
+
+	// Merge overlapping common segments into runs, scored by their segment counts
+	const runs = new Map<string, number>();
+	for (const buf of buffers) {
+		let start = -1;
+		let score = 0;
+		for (let i = 0; i + DICTIONARY_SEGMENT_SIZE <= buf.length + 1; i++) {
+			const count = i + DICTIONARY_SEGMENT_SIZE <= buf.length ? (counts.get(latin1(buf.subarray(i, i + DICTIONARY_SEGMENT_SIZE))) ?? 0) : 0;
+			if (count >= minCount) {
+				if (start < 0) start = i;
+				score += count;
+			} else if (start >= 0) {
+				const run = latin1(buf.subarray(start, i - 1 + DICTIONARY_SEGMENT_SIZE));
+				runs.set(run, (runs.get(run) ?? 0) + score);
+				start = -1;
+				score = 0;
+			}
+		}
+	}
+
+	// Best runs first, skipping those mostly covered by what is already taken
+	const selected: string[] = [];
+	const covered = new Set<string>();
+	let size = 0;
+	for (const [run] of [...runs].sort((a, b) => b[1] - a[1])) {
+		if (size + run.length > maxSize) continue;
+		const segments: string[] = [];
+		for (let i = 0; i + DICTIONARY_SEGMENT_SIZE <= run.length; i++) segments.push(run.slice(i, i + DICTIONARY_SEGMENT_SIZE));
+		if (segments.filter((segment) => covered.has(segment)).length * 2 >= segments.length) continue;
+		for (const segment of segments) covered.add(segment);
+		selected.push(run);
+		size += run.length;
+	}
+	if (size === 0) throw new Error("Samples have no content in common");
+
+	const out = new Uint8Array(size);
+	let offset = 0;
+	for (const run of selected.reverse()) {
+		for (let i = 0; i < run.length; i++) out[offset + i] = run.charCodeAt(i);
+		offset += run.length;
+	}
+	return out;
+}
+
+function latin1(bytes: Uint8Array): string {
+	return String.fromCharCode(...bytes);
+}
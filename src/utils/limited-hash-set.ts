@@ -80,6 +80,14 @@ export class LimitedHashSet<T> {
 		return this.queue.length;
 	}
 
+	/**
+	 * Elements in insertion order, oldest first. Feeding them back through
+	 * `tryAdd` restores both contents and eviction order.
+	 */
+	values(): T[] {
+		return [...this.queue];
+	}
+
 	/**
 	 * Remove **all** elements, resetting the structure to empty state.
 	 */
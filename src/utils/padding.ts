@@ -0,0 +1,54 @@
+/**
+ * How an encrypted message hides the length of its compressed body.
+ *
+ *  - `"none"`         – no padding (default).
+ *  - `"power-of-two"` – pad to the next power of two.
+ *  - `{ sizes }`      – pad to the smallest listed size that fits; bodies
+ *                       larger than every size are left as they are.
+ *  - function         – returns the padded length for a given length.
+ */
+export type PaddingPolicy = "none" | "power-of-two" | { sizes: number[] } | ((length: number) => number);
+
+/** First byte of a padded body, checked by {@link unpad}. */
+const PADDING_MARKER = 0x00;
+/** Marker byte and u32 body length. */
+const PADDING_HEADER_SIZE = 5;
+
+/**
+ * Pad `data` according to `policy`.
+ *
+ * Layout (little-endian): `0x00 | length u32 | data | zero bytes`.
+ *
+ * @param limit - Largest padded length that still fits one payload; buckets
+ *                above it are clamped so padding never forces chunking.
+ * @throws RangeError if a custom policy returns a length that is too short.
+ */
+export function pad(data: Uint8Array, policy: PaddingPolicy, limit = Infinity): Uint8Array {
+	if (policy === "none") return data;
+	const length = data.length + PADDING_HEADER_SIZE;
+	let target: number;
+	if (policy === "power-of-two") target = 2 ** Math.ceil(Math.log2(length));
+	else if (typeof policy === "function") target = policy(length);
+	else target = policy.sizes.filter((size) => size >= length).sort((a, b) => a - b)[0] ?? length;
+	if (!Number.isInteger(target) || target < length) throw new RangeError(`Padded length ${target} is shorter than ${length}`);
+	if (length <= limit) target = Math.min(target, limit);
+
+	const out = new Uint8Array(target);
+	out[0] = PADDING_MARKER;
+	new DataView(out.buffer).setUint32(1, data.length, true);
+	out.set(data, PADDING_HEADER_SIZE);
+	return out;
+}
+
+/**
+ * Strip padding added by {@link pad}. Only call it for bodies the sender
+ * flagged as padded: unpadded data cannot be told apart reliably.
+ *
+ * @throws Error if the marker is missing or the recorded length does not fit the data.
+ */
+export function unpad(data: Uint8Array): Uint8Array {
+	if (data.length < PADDING_HEADER_SIZE || data[0] !== PADDING_MARKER) throw new Error("Invalid padding");
+	const length = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(1, true);
+	if (length > data.length - PADDING_HEADER_SIZE) throw new Error("Invalid padding length");
+	return data.subarray(PADDING_HEADER_SIZE, PADDING_HEADER_SIZE + length);
+}
@@ -3,7 +3,18 @@ import wasmUrl from "kaspa-wasm/kaspa_bg.wasm?url";
 import * as kaspa from "kaspa-wasm";
 import { DEFAULT_NETWORK_ID } from "../sdk/constants";
 import { bytesToHex, intToHex } from "../crypto";
+import type { Signer } from "../crypto/signer";
 import { logger } from "../utils/logger";
+import type {
+	ConnectionHandler,
+	KaspaTransport,
+	UtxoChange,
+	UtxoChangeHandler,
+	UtxoInfo,
+	VirtualChainChange,
+	VirtualChainHandler,
+	WalletBalance
+} from "../transport/kaspa-transport";
 
 let kaspaInitialized: boolean = false;
 
@@ -20,7 +31,29 @@ export async function ensureKaspaInitialized(): Promise<void> {
 	}
 }
 
-export class KaspaWasm {
+export function addressFromPublicKey(pub: string | Uint8Array | kaspa.PublicKey, networkId: string | kaspa.NetworkId): string {
+	const key = pub instanceof kaspa.PublicKey ? pub : new kaspa.PublicKey(pub instanceof Uint8Array ? bytesToHex(pub) : pub);
+	return key.toAddress(networkId).toString();
+}
+
+export function publicKeyFromPrivateKey(privateKey: bigint | number | kaspa.PrivateKey): kaspa.PublicKey {
+	if (privateKey instanceof kaspa.PrivateKey) return privateKey.toPublicKey();
+	const privateKeyHex = intToHex(privateKey, 32);
+	return new kaspa.PrivateKey(privateKeyHex).toPublicKey();
+}
+
+/** {@link UtxoChange} type of each transaction record kind; stasis and batch records are not reported. */
+const UTXO_CHANGE_TYPES: Record<string, UtxoChange["type"]> = {
+	incoming: "incoming",
+	"transfer-incoming": "incoming",
+	outgoing: "outgoing",
+	"transfer-outgoing": "outgoing",
+	change: "change",
+	external: "external",
+	reorg: "reorg"
+};
+
+export class KaspaWasm implements KaspaTransport {
 	private _rpc: kaspa.RpcClient | null = null;
 	private _processor: kaspa.UtxoProcessor | null = null;
 	private _context: kaspa.UtxoContext | null = null;
@@ -30,6 +63,9 @@ export class KaspaWasm {
 	private _url?: string;
 
 	private eventHandlers = new Set<(b: kaspa.IBlockAdded) => void>();
+	private connectionHandlers = new Set<ConnectionHandler>();
+	private chainHandlers = new Set<VirtualChainHandler>();
+	private utxoHandlers = new Set<UtxoChangeHandler>();
 
 	private constructor() {
 		this._networkId = new kaspa.NetworkId(DEFAULT_NETWORK_ID);
@@ -58,7 +94,7 @@ export class KaspaWasm {
 		this._url = this._rpc.url;
 	}
 
-	public async startUtxoMonitoring(address: string) {
+	public async startUtxoMonitoring(address: string | string[]) {
 		if (!this._rpc) throw new Error("call connect() first");
 		if (this._processor) return;
 
@@ -67,9 +103,32 @@ export class KaspaWasm {
 			rpc: this._rpc
 		});
 		this._context = new kaspa.UtxoContext({ processor: this._processor });
+		this._processor.addEventListener("pending", (event) => this.notifyUtxoChange("pending", event.data));
+		this._processor.addEventListener("maturity", (event) => this.notifyUtxoChange("mature", event.data));
+		this._processor.addEventListener("reorg", (event) => this.notifyUtxoChange("pending", event.data));
 
 		await this._processor.start();
-		await this._context.trackAddresses([new kaspa.Address(address)]);
+		const addresses = Array.isArray(address) ? address : [address];
+		await this._context.trackAddresses(addresses.map((a) => new kaspa.Address(a)));
+	}
+
+	/**
+	 * Resolves on the next balance change reported by the UTXO processor, or
+	 * after `timeoutMs`. Used between consecutive sends so the generator does
+	 * not pick UTXOs that were just spent.
+	 */
+	public async waitForUtxoChange(timeoutMs: number): Promise<void> {
+		const processor = this._processor;
+		if (!processor) return;
+		await new Promise<void>((resolve) => {
+			const done = () => {
+				clearTimeout(timer);
+				processor.removeEventListener("balance", done);
+				resolve();
+			};
+			const timer = setTimeout(done, timeoutMs);
+			processor.addEventListener("balance", done);
+		});
 	}
 
 	public async stop() {
@@ -83,6 +142,8 @@ export class KaspaWasm {
 		if (this._rpc) {
 			logger.debug("Disconnected from node...");
 			await this._rpc.disconnect();
+			// The client is discarded; drop its listeners so it can be collected.
+			this._rpc.removeAllEventListeners();
 		}
 		this._rpc = null;
 		this._connected = false;
@@ -102,22 +163,56 @@ export class KaspaWasm {
 		return this.rpc.getUtxosByAddresses(request);
 	}
 
-	public async getBalance(addresses: string | string[]): Promise<{ balance: number; utxoCount: number }> {
+	public async getBalance(addresses: string | string[]): Promise<{ balanceSompi: bigint; utxoCount: number }> {
 		const list = Array.isArray(addresses) ? addresses : [addresses];
 		const { entries } = await this.getUtxosByAddresses(list);
-		const totalSompi = entries.reduce((s: bigint, u: kaspa.UtxoEntryReference) => s + u.amount, 0n);
-		return { balance: Number(totalSompi) / 1e8, utxoCount: entries.length };
+		const balanceSompi = entries.reduce((s: bigint, u: kaspa.UtxoEntryReference) => s + u.amount, 0n);
+		return { balanceSompi, utxoCount: entries.length };
+	}
+
+	/** Balance kept by the UtxoContext, split into mature, pending and outgoing funds. */
+	public getTrackedBalance(): WalletBalance | null {
+		const balance = this._context?.balance;
+		if (!balance) return null;
+		const { mature, pending, outgoing } = balance;
+		return { mature, pending, outgoing, utxoCount: this.context.matureLength + this.context.getPending().length };
+	}
+
+	public listUtxos(): UtxoInfo[] {
+		const context = this._context;
+		if (!context) return [];
+		return [
+			...context.getMatureRange(0, context.matureLength).map((entry) => toUtxoInfo(entry, true)),
+			...context.getPending().map((entry) => toUtxoInfo(entry, false))
+		];
+	}
+
+	/** Reports the `pending`, `maturity` and `reorg` transaction records of the UTXO processor. */
+	public onUtxoChange(cb: UtxoChangeHandler) {
+		this.utxoHandlers.add(cb);
+		return () => this.utxoHandlers.delete(cb);
+	}
+
+	private notifyUtxoChange(state: UtxoChange["state"], record: kaspa.TransactionRecord) {
+		const type = UTXO_CHANGE_TYPES[record.type];
+		const balance = this.getTrackedBalance();
+		if (!type || !balance) return;
+		const change: UtxoChange = { type, state, txid: String(record.id), amount: record.value, balance };
+		for (const handler of this.utxoHandlers) {
+			try {
+				handler(change);
+			} catch (err) {
+				logger.error("UTXO change handler error:", err);
+			}
+		}
 	}
 
 	public getAddressFromPublicKey(pub: string | Uint8Array | kaspa.PublicKey): string {
-		const key = pub instanceof kaspa.PublicKey ? pub : new kaspa.PublicKey(pub instanceof Uint8Array ? bytesToHex(pub) : pub);
-		return key.toAddress(this._networkId).toString();
+		return addressFromPublicKey(pub, this._networkId);
 	}
 
 	public getPublicKeyFromPrivateKey(privateKey: bigint | number | kaspa.PrivateKey): kaspa.PublicKey {
-		if (privateKey instanceof kaspa.PrivateKey) return privateKey.toPublicKey();
-		const privateKeyHex = intToHex(privateKey, 32);
-		return new kaspa.PrivateKey(privateKeyHex).toPublicKey();
+		return publicKeyFromPrivateKey(privateKey);
 	}
 
 	public async createTransaction(
@@ -142,10 +237,24 @@ export class KaspaWasm {
 		return pending.transaction;
 	}
 
-	public async sendTransaction(tx: kaspa.Transaction, privateKey: bigint | number, payload?: string): Promise<string> {
-		const pk = new kaspa.PrivateKey(intToHex(privateKey, 32));
+	/**
+	 * Fee paid by a transaction built with {@link createTransaction}, in sompi:
+	 * the sum of spent UTXO amounts minus the sum of outputs.
+	 *
+	 * @throws Error if an input carries no UTXO entry, so its amount is unknown.
+	 */
+	public getTransactionFee(tx: kaspa.Transaction): bigint {
+		const inputs = tx.inputs.reduce((s: bigint, input, i) => {
+			if (!input.utxo) throw new Error(`Input ${i} has no UTXO entry, the fee is unknown`);
+			return s + input.utxo.amount;
+		}, 0n);
+		const outputs = tx.outputs.reduce((s: bigint, output) => s + output.value, 0n);
+		return inputs - outputs;
+	}
+
+	public async sendTransaction(tx: kaspa.Transaction, signer: Signer, payload?: string): Promise<string> {
 		tx.payload = payload;
-		const signed = kaspa.signTransaction(tx, [pk], true);
+		const signed = await signer.signTransaction(tx);
 		const { transactionId } = await this.rpc.submitTransaction({ transaction: signed });
 		return transactionId;
 	}
@@ -155,10 +264,13 @@ export class KaspaWasm {
 			this._connected = true;
 			logger.debug("Subscribing to Block Added...");
 			await this.rpc.subscribeBlockAdded();
+			if (this.chainHandlers.size) await this.rpc.subscribeVirtualChainChanged(true);
+			this.notifyConnectionChange(true);
 		});
 		this.rpc.addEventListener("disconnect", async (event) => {
 			logger.debug("Disconnect", event);
 			this._connected = false;
+			this.notifyConnectionChange(false);
 		});
 		this.rpc.addEventListener("block-added", async (event) => {
 			delete event.data.block.header.parentsByLevel;
@@ -166,6 +278,17 @@ export class KaspaWasm {
 				handler(event);
 			}
 		});
+		this.rpc.addEventListener("virtual-chain-changed", (event) => {
+			const { removedChainBlockHashes = [], addedChainBlockHashes = [], acceptedTransactionIds = [] } = event.data;
+			const change: VirtualChainChange = { removedChainBlockHashes, addedChainBlockHashes, acceptedTransactionIds };
+			for (const handler of this.chainHandlers) {
+				try {
+					handler(change);
+				} catch (err) {
+					logger.error("virtual chain handler error:", err);
+				}
+			}
+		});
 	}
 
 	public subscribe(cb: (block: kaspa.IBlock) => Promise<void>) {
@@ -175,6 +298,36 @@ export class KaspaWasm {
 		return () => this.eventHandlers.delete(handler);
 	}
 
+	/**
+	 * Subscribes the node to virtual chain changes (with accepted transaction
+	 * ids) while at least one handler is registered.
+	 */
+	public subscribeVirtualChain(cb: VirtualChainHandler) {
+		this.chainHandlers.add(cb);
+		if (this.chainHandlers.size === 1 && this._connected) {
+			this.rpc.subscribeVirtualChainChanged(true).catch((err) => logger.error("virtual chain subscription failed:", err));
+		}
+		return () => {
+			if (!this.chainHandlers.delete(cb) || this.chainHandlers.size || !this._connected) return;
+			this.rpc.unsubscribeVirtualChainChanged(true).catch((err) => logger.error("virtual chain unsubscription failed:", err));
+		};
+	}
+
+	public onConnectionChange(cb: ConnectionHandler) {
+		this.connectionHandlers.add(cb);
+		return () => this.connectionHandlers.delete(cb);
+	}
+
+	private notifyConnectionChange(connected: boolean) {
+		for (const handler of this.connectionHandlers) {
+			try {
+				handler(connected);
+			} catch (err) {
+				logger.error("connection handler error:", err);
+			}
+		}
+	}
+
 	get isConnected() {
 		return this._connected;
 	}
@@ -190,4 +343,37 @@ export class KaspaWasm {
 	public async getServerInfo() {
 		return this.rpc.getServerInfo();
 	}
+
+	public async getBlockDagInfo() {
+		return this.rpc.getBlockDagInfo();
+	}
+
+	public async getVirtualChainFromBlock(startHash: string): Promise<VirtualChainChange> {
+		const { removedChainBlockHashes, addedChainBlockHashes, acceptedTransactionIds } = await this.rpc.getVirtualChainFromBlock({
+			startHash,
+			includeAcceptedTransactionIds: true
+		});
+		return { removedChainBlockHashes, addedChainBlockHashes, acceptedTransactionIds };
+	}
+
+	/**
+	 * Blocks in the future of `lowHash` (the block itself included), with
+	 * their transactions. The node limits how many blocks a single call returns.
+	 */
+	public async getBlocks(lowHash: string): Promise<kaspa.IBlock[]> {
+		const { blocks } = await this.rpc.getBlocks({ lowHash, includeBlocks: true, includeTransactions: true });
+		return blocks;
+	}
+}
+
+function toUtxoInfo(entry: kaspa.UtxoEntryReference, mature: boolean): UtxoInfo {
+	return {
+		txid: entry.outpoint.transactionId,
+		index: entry.outpoint.index,
+		address: entry.address?.toString() ?? "",
+		amount: entry.amount,
+		blockDaaScore: entry.blockDaaScore,
+		isCoinbase: entry.isCoinbase,
+		mature
+	};
 }
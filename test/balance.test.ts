@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Kaspeak, SimulatedNetwork, UtxoChange } from "../src";
+import { Note } from "./helpers";
+
+/** More than a double represents exactly. */
+const FUNDS = 2n ** 60n + 1n;
+/** Events are emitted in a microtask. */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("balance API", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	/** Connected SDK recording its UTXO changes. */
+	async function connect(net: SimulatedNetwork, key: bigint) {
+		const sdk = await Kaspeak.create(key, "TEST", { transport: net.createTransport() });
+		peers.push(sdk);
+		const changes: UtxoChange[] = [];
+		sdk.on("utxoChanged", (change) => changes.push(change));
+		await sdk.connect();
+		return { sdk, changes };
+	}
+
+	it("reports incoming funds exactly in sompi", async () => {
+		const net = new SimulatedNetwork();
+		const { sdk, changes } = await connect(net, 11n);
+
+		const txid = net.fund(sdk.address, FUNDS);
+		await tick();
+
+		assert.deepEqual(
+			changes.map(({ type, txid, amount }) => ({ type, txid, amount })),
+			[{ type: "incoming", txid, amount: FUNDS }]
+		);
+		assert.equal(sdk.balanceSompi, FUNDS);
+		assert.equal(await sdk.getBalanceSompi(), FUNDS);
+		assert.equal(sdk.walletBalance.utxoCount, 1);
+		assert.deepEqual(
+			sdk.listUtxos().map(({ txid, amount, mature }) => ({ txid, amount, mature })),
+			[{ txid, amount: FUNDS, mature: true }]
+		);
+	});
+
+	it("reports the fee of a sent message as outgoing", async () => {
+		const net = new SimulatedNetwork();
+		const { sdk, changes } = await connect(net, 11n);
+		sdk.registerMessage(Note);
+		net.fund(sdk.address, FUNDS);
+
+		const { txid } = await sdk.send(new Note("hi"), { recipient: sdk.publicKey });
+		await tick();
+
+		const outgoing = changes.find((change) => change.txid === txid);
+		assert.equal(outgoing?.type, "outgoing");
+		assert.ok(outgoing.amount > 0n);
+		assert.equal(await sdk.getBalanceSompi(), FUNDS - outgoing.amount);
+		assert.equal(sdk.balanceSompi, FUNDS - outgoing.amount);
+		assert.deepEqual(outgoing.balance, sdk.walletBalance);
+	});
+
+	it("reads other addresses and lists nothing while disconnected", async () => {
+		const net = new SimulatedNetwork();
+		const { sdk } = await connect(net, 11n);
+		const { sdk: other, changes: otherChanges } = await connect(net, 22n);
+		net.fund(other.address, 5n);
+		await tick();
+
+		assert.equal(await sdk.getBalanceSompi(other.address), 5n);
+		assert.equal(await sdk.getBalanceSompi(), 0n);
+		assert.equal(otherChanges.length, 1);
+
+		await other.disconnect();
+		assert.deepEqual(other.listUtxos(), []);
+	});
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { afterEach, describe, it } from "node:test";
+import { Chunk, Kaspeak, SimulatedNetwork } from "../src";
+import { ChunkAssembler } from "../src/sdk/chunk-assembler";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+const data = new Uint8Array(randomBytes(1000));
+
+describe("Chunk", () => {
+	it("splits data into ordered parts that round-trip through bytes", () => {
+		const chunks = Chunk.split(7, data, 300);
+
+		assert.deepEqual(chunks.map((chunk) => [chunk.index, chunk.total, chunk.data.length]), [[0, 4, 300], [1, 4, 300], [2, 4, 300], [3, 4, 100]]);
+		assert.deepEqual(Chunk.fromBytes(chunks[3].toBytes()), chunks[3]);
+	});
+
+	it("rejects bad sizes, indices and truncated bytes", () => {
+		assert.throws(() => Chunk.split(7, data, 0), RangeError);
+		assert.throws(() => Chunk.split(7, new Uint8Array(70_000), 1), /limit is/);
+		assert.throws(() => new Chunk(7, 4, 4, new Uint8Array(32), data), /out of range/);
+		assert.throws(() => Chunk.fromBytes(new Uint8Array(10)), /Invalid chunk size/);
+	});
+});
+
+describe("ChunkAssembler", () => {
+	it("reassembles parts in any order and ignores duplicates", () => {
+		const assembler = new ChunkAssembler();
+		const [a, b, c, d] = Chunk.split(7, data, 300);
+
+		for (const chunk of [d, b, b, a]) assert.equal(assembler.add("k", chunk), null);
+		assert.deepEqual(assembler.add("k", c), { messageType: 7, data });
+		assert.equal(assembler.size, 0);
+	});
+
+	it("drops messages whose parts do not match the digest", () => {
+		const assembler = new ChunkAssembler();
+		const [a, b] = Chunk.split(7, data.subarray(0, 600), 300);
+		b.data[0] ^= 1;
+
+		assembler.add("k", a);
+		assert.equal(assembler.add("k", b), null);
+		assert.equal(assembler.size, 0);
+	});
+
+	it("restarts a key on a different message and evicts the oldest over capacity", () => {
+		const assembler = new ChunkAssembler(2);
+		const [first] = Chunk.split(7, data, 300);
+		const [other] = Chunk.split(7, data.subarray(1), 300);
+
+		assembler.add("k", first);
+		assembler.add("k", other);
+		assert.equal(assembler.size, 1);
+		assembler.add("l", first);
+		assembler.add("m", first);
+		assert.equal(assembler.size, 2);
+	});
+});
+
+describe("chunked messages", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("reassembles a message sent in chunks", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n]);
+		const [alice, bob] = peers;
+		alice.registerMessage(Note);
+		const received = inbox(bob);
+		// Random hex only compresses to about half, well above one payload.
+		const text = randomBytes(100_000).toString("hex");
+
+		const result = await alice.send(new Note(text), { recipient: bob.publicKey, chunkSize: 30_000 });
+		await mineUntil(net, () => received.length > 0);
+
+		assert.ok(result.txids.length > 1, `expected chunks, got ${result.txids.length} transaction`);
+		assert.deepEqual(received, [text]);
+	});
+});
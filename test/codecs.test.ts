@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { CodecOptions, CodecRegistry, Kaspeak, MessageCompression, SimulatedNetwork, UnknownMessage } from "../src";
+import { Note, createPeers, mineUntil } from "./helpers";
+
+/** {@link Note} with every stage of the pipeline swapped out. */
+class DebugNote extends Note {
+	static codec: CodecOptions = { encoding: "json", compression: "none", cipher: "aes-256-gcm" };
+}
+
+const identity = (id: number, name: string): MessageCompression => ({ id, name, compress: (data) => data, decompress: (data) => data });
+
+describe("CodecRegistry", () => {
+	it("finds algorithms by id and name", () => {
+		const registry = new CodecRegistry().registerCompression(identity(128, "copy"));
+
+		assert.equal(registry.compression("copy").id, 128);
+		assert.equal(registry.compression(128).name, "copy");
+		assert.throws(() => registry.compression("brotli"), /Unknown compression: brotli/);
+	});
+
+	it("refuses taken, out-of-range and reserved ids", () => {
+		const registry = new CodecRegistry().registerCompression(identity(128, "copy"));
+
+		assert.throws(() => registry.registerCompression(identity(128, "other")), /compression id 128 is already registered/);
+		assert.throws(() => registry.registerCompression(identity(129, "copy")), /compression "copy" is already registered/);
+		assert.throws(() => registry.registerCompression(identity(256, "wide")), RangeError);
+		assert.throws(() => registry.registerCipher({ id: 0xff, name: "custom", keySize: 32, seal: (_, p) => p, open: (_, d) => d }), /reserved/);
+	});
+});
+
+describe("codec pipeline", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	/** Alice and Bob on payload `version`; Bob's worker hands over the raw data as received. */
+	async function setUp(version: 1 | 2) {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n], { payloadVersion: version });
+		const [alice, bob] = peers;
+		alice.registerMessage(DebugNote);
+		const received: { texts: string[]; raw: Uint8Array[] } = { texts: [], raw: [] };
+		bob.registerMessage(DebugNote, async (header, data) => {
+			received.raw.push(data);
+			const { secret } = bob.deriveConversationKeys(header.peer.publicKey);
+			received.texts.push((await bob.decode<DebugNote>(header, data, secret)).text);
+		});
+		return { net, alice, bob, received };
+	}
+
+	it("describes and round-trips the chosen algorithms with v2 payloads", async () => {
+		const { net, alice, bob, received } = await setUp(2);
+
+		await alice.send(new DebugNote("json over aes"), { recipient: bob.publicKey });
+		await mineUntil(net, () => received.texts.length > 0);
+
+		assert.deepEqual(received.texts, ["json over aes"]);
+		assert.deepEqual([...received.raw[0].subarray(0, 3)], [1, 0, 2]);
+	});
+
+	it("ignores the codec with v1 payloads", async () => {
+		const { net, alice, bob, received } = await setUp(1);
+		const key = new Uint8Array(32);
+
+		const v1 = await alice.encode(new DebugNote("legacy"), key);
+		await alice.send(new DebugNote("legacy"), { recipient: bob.publicKey });
+		await mineUntil(net, () => received.texts.length > 0);
+
+		assert.equal(v1.length, (await alice.encode(new Note("legacy"), key)).length);
+		assert.deepEqual(received.texts, ["legacy"]);
+	});
+
+	it("decodes an unknown algorithm id as an UnknownMessage", async () => {
+		const { net, alice, bob } = await setUp(2);
+		let decoded: UnknownMessage | undefined;
+		bob.registerMessage(DebugNote, async (header, data) => {
+			const tampered = data.slice();
+			tampered[1] = 0xee;
+			decoded = await bob.decode<UnknownMessage>(header, tampered, bob.deriveConversationKeys(header.peer.publicKey).secret);
+		});
+
+		await alice.send(new DebugNote("unreadable"), { recipient: bob.publicKey });
+		await mineUntil(net, () => decoded !== undefined);
+
+		assert.ok(decoded instanceof UnknownMessage);
+		assert.equal(decoded.code, 7);
+		assert.match(decoded.errorDesc!, /Unknown compression: 238/);
+	});
+
+	it("refuses to encode with an algorithm nobody registered", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n], { payloadVersion: 2 });
+		class BrotliNote extends Note {
+			static codec: CodecOptions = { compression: "brotli" };
+		}
+
+		await assert.rejects(peers[0].encode(new BrotliNote("hi"), new Uint8Array(32), { describe: true }), /Unknown compression: brotli/);
+	});
+});
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Kaspeak, SimulatedNetwork, TransactionStatus } from "../src";
+import { ConfirmationTracker } from "../src/sdk/confirmation-tracker";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+describe("confirmation tracking", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("reports a sent message from submission to confirmation", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n], { confirmations: { depth: 2 } });
+		const [alice] = peers;
+		alice.registerMessage(Note);
+		const states: string[] = [];
+		alice.on("transactionStatus", ({ state }) => states.push(state));
+
+		const { txid } = await alice.send(new Note("hi"), { recipient: alice.publicKey });
+		await mineUntil(net, () => states.includes("confirmed"));
+
+		assert.deepEqual(states, ["submitted", "included", "accepted", "confirmed"]);
+		assert.equal(alice.getTransactionStatus(txid), undefined);
+	});
+
+	it("holds back deferred messages until they are confirmed", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n], { confirmations: { depth: 3, deferDelivery: true } });
+		const [alice, bob] = peers;
+		alice.registerMessage(Note);
+		const received = inbox(bob);
+
+		const { txid } = await alice.send(new Note("later"), { recipient: bob.publicKey });
+		await mineUntil(net, () => bob.getTransactionStatus(txid)?.state === "accepted");
+		assert.deepEqual(received, []);
+		await mineUntil(net, () => received.length > 0);
+
+		assert.deepEqual(received, ["later"]);
+	});
+
+	it("orphans a transaction whose accepting block is removed and accepts it again", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n], { confirmations: { depth: 5 } });
+		const [alice] = peers;
+		alice.registerMessage(Note);
+		const { txid } = await alice.send(new Note("reorg"), { recipient: alice.publicKey });
+		await net.mineBlock();
+		const accepted = alice.getTransactionStatus(txid)!.acceptingBlockHash;
+
+		net.orphanBlocks(1);
+		assert.equal(alice.getTransactionStatus(txid)?.state, "orphaned");
+		await net.mineBlock();
+
+		const status = alice.getTransactionStatus(txid)!;
+		assert.equal(status.state, "accepted");
+		assert.notEqual(status.acceptingBlockHash, accepted);
+	});
+});
+
+describe("ConfirmationTracker", () => {
+	const track = (depth: number, expiry = 0) => {
+		const statuses: TransactionStatus[] = [];
+		return { tracker: new ConfirmationTracker(depth, (status) => statuses.push(status), 100, expiry), statuses };
+	};
+	const accepted = (block: string, ...txids: string[]) => ({
+		removedChainBlockHashes: [],
+		addedChainBlockHashes: [block],
+		acceptedTransactionIds: [{ acceptingBlockHash: block, acceptedTransactionIds: txids }]
+	});
+
+	it("applies acceptance that arrives before the transaction is included", () => {
+		const { tracker } = track(2);
+		tracker.noteBlock("b1", 10n);
+		tracker.applyChainChange(accepted("b1", "tx"));
+		tracker.markIncluded("tx", "b1", 10n);
+
+		assert.equal(tracker.get("tx")?.state, "accepted");
+		assert.equal(tracker.lastChainBlock, "b1");
+	});
+
+	it("confirms only the transactions that are due", () => {
+		const { tracker, statuses } = track(5);
+		tracker.noteBlock("b1", 10n);
+		tracker.markIncluded("early", "b1", 10n);
+		tracker.applyChainChange(accepted("b1", "early"));
+		tracker.noteBlock("b2", 12n);
+		tracker.markIncluded("late", "b2", 12n);
+		tracker.applyChainChange(accepted("b2", "late"));
+
+		tracker.noteBlock("b3", 15n);
+		assert.deepEqual(
+			statuses.filter((s) => s.state === "confirmed").map((s) => s.txid),
+			["early"]
+		);
+		assert.equal(tracker.get("late")?.confirmations, 3);
+	});
+
+	it("expires an unaccepted transaction and runs its expiry callbacks instead", () => {
+		const { tracker } = track(2, 10);
+		const events: string[] = [];
+		tracker.noteBlock("b1", 10n);
+		tracker.markIncluded("tx", "b1", 10n);
+		tracker.whenConfirmed("tx", () => events.push("confirmed"), () => events.push("expired"));
+
+		tracker.noteBlock("b2", 19n);
+		assert.deepEqual(events, []);
+		tracker.noteBlock("b3", 20n);
+
+		assert.deepEqual(events, ["expired"]);
+		assert.equal(tracker.get("tx"), undefined);
+	});
+
+	it("catches up on acceptance missed while disconnected", async () => {
+		const net = new SimulatedNetwork();
+		const transport = net.createTransport();
+		await transport.connect();
+		const { tracker } = track(1);
+		const start = await net.mineBlock();
+		tracker.noteBlock(start.header.hash, start.header.daaScore);
+		tracker.applyChainChange(accepted(start.header.hash));
+
+		net.fund("kaspatest:qz0000000000000000000000000000000000000000000000000000000000000", 1n);
+		const block = await net.mineBlock();
+		const [txid] = block.verboseData!.transactionIds;
+		tracker.noteBlock(block.header.hash, block.header.daaScore);
+		tracker.markIncluded(txid, block.header.hash, block.header.daaScore);
+		assert.equal(tracker.get(txid)?.state, "included");
+
+		tracker.applyChainChange(await transport.getVirtualChainFromBlock(tracker.lastChainBlock!));
+		assert.equal(tracker.get(txid)?.state, "accepted");
+	});
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Conversation, Identifier, Kaspeak, MemoryStateStore, SimulatedNetwork } from "../src";
+import { Note, createPeers, mineUntil } from "./helpers";
+
+describe("conversations", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	/** Texts `sdk` receives in `chat`, ignoring everything else. */
+	const listen = (sdk: Kaspeak, chat: Conversation) => {
+		const texts: string[] = [];
+		sdk.registerMessage(Note, async (header, data) => {
+			if (chat.accept(header) === null) return;
+			texts.push((await chat.decode<Note>(header, data)).text);
+		});
+		return texts;
+	};
+
+	it("exchanges messages over both identifier chains and tracks the indices", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n]);
+		const [alice, bob] = peers;
+		const aliceChat = await alice.conversation(bob.publicKey);
+		const bobChat = await bob.conversation(alice.publicKey);
+		const aliceInbox = listen(alice, aliceChat);
+		const bobInbox = listen(bob, bobChat);
+
+		assert.equal(aliceChat.chainKey, bobChat.chainKey);
+		assert.ok(bobChat.expectedIdentifiers.includes(aliceChat.nextSendIdentifier.hex));
+		for (const text of ["one", "two", "three"]) await aliceChat.send(new Note(text));
+		await mineUntil(net, () => bobInbox.length === 3);
+		await bobChat.send(new Note("back"));
+		await mineUntil(net, () => aliceInbox.length === 1);
+
+		assert.deepEqual(bobInbox.sort(), ["one", "three", "two"]);
+		assert.deepEqual(aliceInbox, ["back"]);
+		assert.deepEqual(aliceChat.indices, { send: 3, receive: 1 });
+		assert.deepEqual(bobChat.indices, { send: 1, receive: 3 });
+		assert.equal(await alice.conversation(bob.publicKey), aliceChat);
+	});
+
+	it("ignores messages from others and identifiers outside the window", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n, 33n]);
+		const [alice, bob, carol] = peers;
+		const aliceChat = await alice.conversation(bob.publicKey, { lookAhead: 2 });
+		const bobChat = await bob.conversation(alice.publicKey, { lookAhead: 2 });
+		const bobInbox = listen(bob, bobChat);
+		carol.registerMessage(Note);
+
+		await carol.send(new Note("stranger"), { recipient: bob.publicKey, identifier: aliceChat.nextSendIdentifier });
+		alice.registerMessage(Note);
+		const farAhead = Identifier.fromChainKey(aliceChat.chainKey, 4, alice.publicKey);
+		await alice.send(new Note("too far ahead"), { recipient: bob.publicKey, identifier: farAhead });
+		await net.mineBlocks(3);
+
+		assert.equal(bobInbox.length, 0);
+		assert.deepEqual(bobChat.indices, { send: 0, receive: 0 });
+	});
+
+	it("consumes the send index even when the send fails", async () => {
+		const net = new SimulatedNetwork();
+		const alice = await Kaspeak.create(11n, "TEST", { transport: net.createTransport() });
+		peers = [alice];
+		await alice.connect();
+		const chat = await alice.conversation(alice.publicKey);
+		const first = chat.nextSendIdentifier.hex;
+
+		await assert.rejects(chat.send(new Note("unfunded")));
+
+		assert.deepEqual(chat.indices, { send: 1, receive: 0 });
+		assert.notEqual(chat.nextSendIdentifier.hex, first);
+	});
+
+	it("resumes the indices after a restart", async () => {
+		const net = new SimulatedNetwork();
+		const stateStore = new MemoryStateStore();
+		const [bob] = await createPeers(net, [22n]);
+		let alice = await Kaspeak.create(11n, "TEST", { transport: net.createTransport(), stateStore });
+		peers = [bob, alice];
+		await alice.connect();
+		net.fund(alice.address, 1_000_000_000_000n);
+		await (await alice.conversation(bob.publicKey)).send(new Note("one"));
+		await alice.dispose();
+
+		alice = await Kaspeak.create(11n, "TEST", { transport: net.createTransport(), stateStore });
+		peers.push(alice);
+		const chat = await alice.conversation(bob.publicKey);
+
+		assert.deepEqual(chat.indices, { send: 1, receive: 0 });
+	});
+});
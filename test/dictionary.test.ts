@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { BaseMessage, CodecOptions, Kaspeak, MessageHeader, SimulatedNetwork, buildSubstringDictionary, codecs } from "../src";
+import { createPeers, mineUntil } from "./helpers";
+
+/** Chat message compressed against dictionary 1. */
+class Chat extends BaseMessage {
+	static messageType = 8;
+	static codec: CodecOptions = { dictionary: 1 };
+	text: string;
+
+	constructor(text = "", header?: MessageHeader) {
+		super(header);
+		this.text = text;
+	}
+
+	toPlainObject(): { text: string; room: string } {
+		return { text: this.text, room: "general" };
+	}
+
+	fromPlainObject(obj: { text: string }): void {
+		this.text = obj.text;
+	}
+}
+
+/** {@link Chat} compressed with plain Zstd. */
+class PlainChat extends Chat {
+	static codec: CodecOptions = { compression: "zstd" };
+}
+
+/** {@link Chat} naming a dictionary nobody registered. */
+class UnknownDictionaryChat extends Chat {
+	static codec: CodecOptions = { dictionary: 999 };
+}
+
+const samples = ["good morning everyone", "good evening everyone", "see you tomorrow everyone"].map((text) => new Chat(text).toPlainObject());
+codecs.registerDictionary(1, buildSubstringDictionary(samples, 1024));
+
+describe("buildSubstringDictionary", () => {
+	it("collects the content the samples share", () => {
+		const dictionary = new TextDecoder("latin1").decode(buildSubstringDictionary(samples, 1024));
+
+		assert.match(dictionary, /everyone/);
+		assert.match(dictionary, /general/);
+		assert.ok(buildSubstringDictionary(samples, 16).length <= 16);
+	});
+
+	it("refuses samples with nothing in common", () => {
+		assert.throws(() => buildSubstringDictionary([new Uint8Array(16).fill(1), new Uint8Array(16).fill(2)]), /no content in common/);
+	});
+});
+
+describe("dictionary compression", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("refuses to register a dictionary id twice or out of range", () => {
+		assert.throws(() => codecs.registerDictionary(1, new Uint8Array(8)), /already registered/);
+		assert.throws(() => codecs.registerDictionary(0x10000, new Uint8Array(8)), RangeError);
+	});
+
+	it("refuses to compress against an unregistered dictionary", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n], { payloadVersion: 2 });
+
+		await assert.rejects(peers[0].send(new UnknownDictionaryChat("hi")), /Unknown dictionary: 999/);
+	});
+
+	it("round-trips messages compressed against a shared dictionary", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n], { payloadVersion: 2 });
+		const [alice, bob] = peers;
+		const received: Chat[] = [];
+		alice.registerMessage(Chat);
+		bob.registerMessage(Chat, async (header, data) => {
+			received.push(await bob.decode<Chat>(header, data));
+		});
+
+		const plain = await alice.encode(new PlainChat("good night everyone"), undefined, { describe: true });
+		const compressed = await alice.encode(new Chat("good night everyone"), undefined, { describe: true });
+		await alice.send(new Chat("good night everyone"));
+		await mineUntil(net, () => received.length > 0);
+
+		assert.ok(compressed.length < plain.length, `${compressed.length} ≥ ${plain.length}`);
+		assert.equal(received[0].text, "good night everyone");
+	});
+});
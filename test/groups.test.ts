@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Group, Kaspeak, MemoryStateStore, SimulatedNetwork } from "../src";
+import { Note, createPeers, mineUntil } from "./helpers";
+
+describe("groups", () => {
+	let net: SimulatedNetwork;
+	let peers: Kaspeak[] = [];
+	let log: string[];
+
+	/** Record every broadcast from others that `group` can read in `log` as `name<text`. */
+	const listen = (name: string, group: Group) =>
+		group.onMessage(async (header, data) => {
+			if (header.peer.isOwn) return;
+			const message = await group.decode(header, data);
+			if (message instanceof Note) log.push(`${name}<${message.text}`);
+		});
+
+	beforeEach(() => {
+		net = new SimulatedNetwork();
+		log = [];
+	});
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("delivers broadcasts to every member", async () => {
+		peers = await createPeers(net, [11n, 22n, 33n]);
+		const [alice, bob, carol] = peers;
+		for (const sdk of peers) sdk.registerMessage(Note);
+		const group = await alice.createGroup([bob.publicKey, carol.publicKey]);
+		await mineUntil(net, () => !!bob.group(group.id) && !!carol.group(group.id));
+		listen("alice", group);
+		listen("bob", bob.group(group.id)!);
+		listen("carol", carol.group(group.id)!);
+
+		await bob.group(group.id)!.send(new Note("hi all"));
+		await mineUntil(net, () => log.length === 2);
+
+		assert.deepEqual(log.sort(), ["alice<hi all", "carol<hi all"]);
+		assert.equal(bob.group(group.id)!.isOwner, false);
+		assert.deepEqual(bob.group(group.id)!.members, group.members);
+	});
+
+	it("locks a removed member out of new broadcasts and, after the grace window, out of sending", async () => {
+		peers = await createPeers(net, [11n, 22n, 33n]);
+		const [alice, bob, carol] = peers;
+		for (const sdk of peers) sdk.registerMessage(Note);
+		const group = await alice.createGroup([bob.publicKey, carol.publicKey]);
+		await mineUntil(net, () => !!bob.group(group.id) && !!carol.group(group.id));
+		const carolGroup = carol.group(group.id)!;
+		listen("bob", bob.group(group.id)!);
+		listen("carol", carolGroup);
+		await carolGroup.send(new Note("before"));
+		await mineUntil(net, () => log.includes("bob<before"));
+
+		await group.removeMembers([carol.publicKey]);
+		await mineUntil(net, () => bob.group(group.id)!.epoch === 2);
+		await group.send(new Note("secret"));
+		await mineUntil(net, () => log.includes("bob<secret"));
+		await carolGroup.send(new Note("late"));
+		await mineUntil(net, () => log.includes("bob<late"));
+		await net.mineBlocks(600);
+		await carolGroup.send(new Note("too late"));
+		await net.mineBlocks(3);
+
+		assert.equal(carolGroup.epoch, 1);
+		assert.deepEqual(log, ["bob<before", "bob<secret", "bob<late"]);
+	});
+
+	it("refuses to broadcast for a non-member or change members for a non-owner", async () => {
+		peers = await createPeers(net, [11n, 22n, 33n]);
+		const [alice, bob, carol] = peers;
+		const group = await alice.createGroup([bob.publicKey, carol.publicKey]);
+		await mineUntil(net, () => !!bob.group(group.id) && !!carol.group(group.id));
+		await group.removeMembers([carol.publicKey]);
+
+		await assert.rejects(bob.group(group.id)!.addMembers([carol.publicKey]), /Only the owner/);
+		await mineUntil(net, () => bob.group(group.id)!.epoch === 2);
+		await assert.rejects(new Group(bob, group.id, { ...bob.group(group.id)!.toJSON(), members: [alice.publicKey] }, () => {}).send(new Note("x")), /Not a member/);
+	});
+
+	it("stores group secrets sealed", async () => {
+		const stateStore = new MemoryStateStore();
+		const alice = await Kaspeak.create(11n, "TEST", { transport: net.createTransport(), stateStore });
+		peers = [alice];
+		await alice.connect();
+		net.fund(alice.address, 1_000_000_000_000n);
+		const group = await alice.createGroup([]);
+		await alice.saveState();
+
+		const stored = JSON.stringify(await stateStore.get(`kaspeak:TEST:${alice.publicKey}:groups`));
+		assert.match(stored, /\$sealed/);
+		assert.doesNotMatch(stored, new RegExp(group.toJSON().ownerSecret!));
+	});
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { HDWallet, Kaspeak, Secp256k1, SimulatedNetwork } from "../src";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+const phrase = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+describe("HDWallet", () => {
+	it("derives the same keys from the same phrase and keeps the roles apart", async () => {
+		const wallet = await HDWallet.fromMnemonic(phrase);
+		const again = await HDWallet.fromMnemonic(phrase);
+		const keys = [wallet.identityKey(), wallet.fundingKey(), wallet.fundingKey(0, 1), wallet.identityKey(1)];
+
+		assert.equal(again.identityKey(), keys[0]);
+		assert.equal(again.fundingKey(0, 1), keys[2]);
+		assert.equal(new Set(keys).size, keys.length);
+		assert.notEqual((await HDWallet.fromMnemonic(phrase, "passphrase")).identityKey(), keys[0]);
+	});
+
+	it("derives one conversation key per peer", async () => {
+		const wallet = await HDWallet.fromMnemonic(phrase);
+		const bob = Secp256k1.getPub(22n);
+
+		assert.equal(wallet.conversationKey(bob), wallet.conversationKey(bob.toCompressed()));
+		assert.notEqual(wallet.conversationKey(bob), wallet.conversationKey(Secp256k1.getPub(33n)));
+	});
+
+	it("rejects invalid phrases, accounts and indices", async () => {
+		await assert.rejects(HDWallet.fromMnemonic("abandon abandon abandon"), /Invalid mnemonic phrase/);
+		const wallet = await HDWallet.fromMnemonic(phrase);
+		assert.throws(() => wallet.fundingKey(0, -1), RangeError);
+		assert.throws(() => wallet.identityKey(2 ** 31), RangeError);
+	});
+
+	it("generates phrases it accepts", async () => {
+		const generated = await HDWallet.generateMnemonic(12);
+
+		assert.equal(generated.split(" ").length, 12);
+		await HDWallet.fromMnemonic(generated);
+	});
+});
+
+describe("Kaspeak.fromMnemonic", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("rotates the funding address without changing the identity", async () => {
+		const net = new SimulatedNetwork();
+		const first = await Kaspeak.fromMnemonic(phrase, "TEST", { transport: net.createTransport() });
+		const rotated = await Kaspeak.fromMnemonic(phrase, "TEST", { transport: net.createTransport(), fundingIndex: 1 });
+		peers = [first, rotated];
+
+		assert.equal(rotated.publicKey, first.publicKey);
+		assert.notEqual(rotated.address, first.address);
+		assert.deepEqual(rotated.fundingAddresses, [rotated.address, first.address]);
+	});
+
+	it("signs with the identity and pays from an earlier funding address", async () => {
+		const net = new SimulatedNetwork();
+		const [bob] = await createPeers(net, [22n]);
+		const alice = await Kaspeak.fromMnemonic(phrase, "TEST", { transport: net.createTransport(), fundingIndex: 1 });
+		peers = [bob, alice];
+		await alice.connect();
+		alice.registerMessage(Note);
+		const received = inbox(bob);
+		const senders: string[] = [];
+		bob.on("KaspeakMessageReceived", ({ header }) => senders.push(header.peer.address));
+		net.fund(alice.fundingAddresses[1], 1_000_000_000_000n);
+
+		await alice.send(new Note("from the old address"), { recipient: bob.publicKey });
+		await mineUntil(net, () => received.length > 0);
+
+		assert.deepEqual(received, ["from the old address"]);
+		assert.equal(senders.length, 1);
+		assert.ok(!alice.fundingAddresses.includes(senders[0]));
+	});
+});
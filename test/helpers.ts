@@ -0,0 +1,54 @@
+import { BaseMessage, Kaspeak, KaspeakOptions, MessageHeader, SimulatedNetwork } from "../src";
+
+/** Encrypted text message used by the tests. */
+export class Note extends BaseMessage {
+	static messageType = 7;
+	static requiresEncryption = true;
+	text: string;
+
+	constructor(text = "", header?: MessageHeader) {
+		super(header);
+		this.text = text;
+	}
+
+	toPlainObject(): { t: string } {
+		return { t: this.text };
+	}
+
+	fromPlainObject(obj: { t: string }): void {
+		this.text = obj.t;
+	}
+}
+
+/** Funded SDK instances on `net`, one per key, each with its own transport. */
+export async function createPeers(net: SimulatedNetwork, keys: bigint[], options: KaspeakOptions = {}): Promise<Kaspeak[]> {
+	const peers: Kaspeak[] = [];
+	for (const key of keys) {
+		const sdk = await Kaspeak.create(key, "TEST", { ...options, transport: net.createTransport() });
+		await sdk.connect();
+		net.fund(sdk.address, 1_000_000_000_000n);
+		peers.push(sdk);
+	}
+	return peers;
+}
+
+/** Texts of the {@link Note}s `sdk` receives from other peers, decrypted with the static conversation key. */
+export function inbox(sdk: Kaspeak): string[] {
+	const texts: string[] = [];
+	sdk.registerMessage(Note, async (header, data) => {
+		if (header.peer.isOwn) return;
+		const { secret } = sdk.deriveConversationKeys(header.peer.publicKey);
+		const note = await sdk.decode<Note>(header, data, secret);
+		texts.push(note.text);
+	});
+	return texts;
+}
+
+/** Mine blocks until `condition` holds. */
+export async function mineUntil(net: SimulatedNetwork, condition: () => boolean, maxBlocks = 20): Promise<void> {
+	for (let i = 0; i < maxBlocks && !condition(); i++) {
+		await net.mineBlock();
+		await new Promise((resolve) => setTimeout(resolve, 10));
+	}
+	if (!condition()) throw new Error(`Condition not met after ${maxBlocks} blocks`);
+}
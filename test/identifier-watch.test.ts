@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Identifier, IdentifierChain, Kaspeak, MessageHeader, Point, Secp256k1, SimulatedNetwork } from "../src";
+import { IdentifierWatcher } from "../src/sdk/identifier-watcher";
+import { Note, createPeers, mineUntil } from "./helpers";
+
+const base = Secp256k1.getPub(11n);
+const chainKey = 0x1234567890abcdefn;
+const id = (index: number) => Identifier.fromChainKey(chainKey, index, base).hex;
+/** Header carrying only `identifier`, which is all the watcher reads. */
+const headerFor = (hex: string) => ({ identifier: Identifier.fromHex(hex) }) as MessageHeader;
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("IdentifierChain", () => {
+	it("matches out-of-order indices until they fall a full window behind", () => {
+		const chain = new IdentifierChain(base, chainKey, 3);
+		assert.deepEqual(chain.identifiers, [id(1), id(2), id(3)]);
+
+		assert.deepEqual(chain.consume(id(3)), { index: 3, added: [id(4), id(5), id(6)], removed: [id(3)] });
+		assert.equal(chain.indexOf(id(1)), 1);
+		assert.equal(chain.consume(id(2))!.index, 2);
+		assert.deepEqual(chain.consume(id(5))!.removed, [id(5), id(1)]);
+		assert.equal(chain.consume(id(2)), null);
+		assert.equal(chain.lastIndex, 5);
+	});
+
+	it("resumes after a stored index and rejects bad sizes", () => {
+		assert.deepEqual(new IdentifierChain(base, chainKey, 2, 7).identifiers, [id(8), id(9)]);
+		assert.throws(() => new IdentifierChain(base, chainKey, 0), RangeError);
+		assert.throws(() => new IdentifierChain(base, chainKey, 2, -1), RangeError);
+	});
+});
+
+describe("IdentifierWatcher", () => {
+	it("routes by exact identifier, chain and predicate until unsubscribed", async () => {
+		const watcher = new IdentifierWatcher();
+		const seen: string[] = [];
+		const stop = watcher.watchIdentifier(id(9), () => void seen.push("exact"));
+		const chain = watcher.watchChain(base, chainKey, 2, (_h, _d, index) => void seen.push(`chain ${index}`));
+		watcher.watchPredicate((identifier) => identifier.hex === id(2), () => void seen.push("predicate"));
+
+		assert.equal(watcher.dispatch(headerFor(id(2)), new Uint8Array()), true);
+		assert.equal(watcher.dispatch(headerFor(id(9)), new Uint8Array()), true);
+		stop();
+		chain.unsubscribe();
+		assert.equal(watcher.dispatch(headerFor(id(9)), new Uint8Array()), false);
+		await tick();
+
+		assert.deepEqual(seen, ["chain 2", "predicate", "exact"]);
+		assert.equal(chain.lastIndex, 2);
+		assert.equal(watcher.size, 0);
+	});
+});
+
+describe("identifier watches", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("delivers messages on a watched chain next to the type worker", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n]);
+		const [alice, bob] = peers;
+		alice.registerMessage(Note);
+		let typeWorker = 0;
+		bob.registerMessage(Note, () => void typeWorker++);
+		const alicePoint = Point.fromHex(alice.publicKey);
+		const indices: number[] = [];
+		const watch = bob.watchChain(alicePoint, chainKey, 3, (_header, _data, index) => void indices.push(index!));
+
+		for (const index of [2, 1]) {
+			await alice.send(new Note(`#${index}`), { recipient: bob.publicKey, identifier: Identifier.fromChainKey(chainKey, index, alicePoint) });
+		}
+		await mineUntil(net, () => indices.length === 2);
+		watch.unsubscribe();
+		await alice.send(new Note("#3"), { recipient: bob.publicKey, identifier: Identifier.fromChainKey(chainKey, 3, alicePoint) });
+		await mineUntil(net, () => typeWorker === 3);
+
+		assert.deepEqual(indices.sort(), [1, 2]);
+		assert.equal(watch.lastIndex, 2);
+	});
+});
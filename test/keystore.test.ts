@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Kaspeak, Keystore, KEYSTORE_VERSION, Secp256k1, SimulatedNetwork, bytesToHex, intToHex } from "../src";
+import { Note } from "./helpers";
+
+/** Cheap scrypt cost so the tests stay fast. */
+const FAST_SCRYPT = { N: 1024, r: 8, p: 1 };
+const phrase = "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+
+describe("Keystore", () => {
+	const content = { privateKey: "11".repeat(32) };
+
+	it("opens with the right password", async () => {
+		const keystore = await Keystore.encrypt(content, "correct horse", FAST_SCRYPT);
+		assert.deepEqual(await Keystore.decrypt(JSON.stringify(keystore), "correct horse"), content);
+	});
+
+	it("rejects a wrong password", async () => {
+		const keystore = await Keystore.encrypt(content, "correct horse", FAST_SCRYPT);
+		await assert.rejects(Keystore.decrypt(keystore, "battery staple"), /Wrong password/);
+	});
+
+	it("rejects a keystore whose KDF parameters were changed", async () => {
+		const keystore = await Keystore.encrypt(content, "correct horse", FAST_SCRYPT);
+		await assert.rejects(Keystore.decrypt({ ...keystore, kdf: { ...keystore.kdf, r: 4 } }, "correct horse"), /Wrong password/);
+	});
+
+	it("rejects unknown versions and KDFs", async () => {
+		const keystore = await Keystore.encrypt(content, "correct horse", FAST_SCRYPT);
+		await assert.rejects(Keystore.decrypt({ ...keystore, version: KEYSTORE_VERSION + 1 }, "correct horse"), /Unsupported keystore version/);
+		const pbkdf2 = { ...keystore, kdf: { ...keystore.kdf, name: "pbkdf2" } } as unknown as typeof keystore;
+		await assert.rejects(Keystore.decrypt(pbkdf2, "correct horse"), /Unsupported keystore KDF pbkdf2/);
+	});
+
+	it("changes the password with a fresh salt", async () => {
+		const keystore = await Keystore.encrypt(content, "correct horse", FAST_SCRYPT);
+		const changed = await Keystore.changePassword(keystore, "correct horse", "battery staple");
+
+		assert.notEqual(changed.kdf.salt, keystore.kdf.salt);
+		assert.equal(changed.kdf.N, FAST_SCRYPT.N);
+		assert.deepEqual(await Keystore.decrypt(changed, "battery staple"), content);
+		await assert.rejects(Keystore.decrypt(changed, "correct horse"), /Wrong password/);
+		await assert.rejects(Keystore.changePassword(keystore, "wrong", "battery staple"), /Wrong password/);
+	});
+});
+
+describe("Kaspeak.fromKeystore", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("restores a private key identity", async () => {
+		const net = new SimulatedNetwork();
+		const privateKey = "11".repeat(32);
+		const keystore = await Keystore.encrypt({ privateKey }, "pw", FAST_SCRYPT);
+		const original = await Kaspeak.create(privateKey, "TEST", { transport: net.createTransport() });
+		const restored = await Kaspeak.fromKeystore(keystore, "pw", "TEST", { transport: net.createTransport() });
+		peers = [original, restored];
+
+		assert.equal(restored.publicKey, original.publicKey);
+	});
+
+	it("restores a mnemonic identity with its passphrase and funding index", async () => {
+		const net = new SimulatedNetwork();
+		const keystore = await Keystore.encrypt({ mnemonic: phrase, passphrase: "extra" }, "pw", FAST_SCRYPT);
+		const original = await Kaspeak.fromMnemonic(phrase, "TEST", { transport: net.createTransport(), passphrase: "extra", fundingIndex: 2 });
+		const restored = await Kaspeak.fromKeystore(keystore, "pw", "TEST", { transport: net.createTransport(), fundingIndex: 2 });
+		peers = [original, restored];
+
+		assert.equal(restored.publicKey, original.publicKey);
+		assert.equal(restored.address, original.address);
+	});
+
+	it("restores the conversation secrets sealed next to the key", async () => {
+		const net = new SimulatedNetwork();
+		const alice = await Kaspeak.create(11n, "TEST", { transport: net.createTransport() });
+		peers = [alice];
+		await alice.connect();
+		const bob = bytesToHex(Secp256k1.getPub(22n).toCompressed());
+		await assert.rejects((await alice.conversation(bob)).send(new Note("unfunded")));
+		const keystore = await Keystore.encrypt({ privateKey: intToHex(11n, 32), secrets: alice.exportSecrets() }, "pw", FAST_SCRYPT);
+
+		const restored = await Kaspeak.fromKeystore(keystore, "pw", "TEST", { transport: net.createTransport() });
+		peers.push(restored);
+
+		assert.deepEqual((await restored.conversation(bob)).indices, { send: 1, receive: 0 });
+	});
+
+	it("refuses a keystore without a key", async () => {
+		const keystore = await Keystore.encrypt({ secrets: {} }, "pw", FAST_SCRYPT);
+
+		await assert.rejects(Kaspeak.fromKeystore(keystore, "pw"), /Keystore holds no key/);
+	});
+});
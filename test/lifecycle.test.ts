@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Kaspeak, SimulatedNetwork } from "../src";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+describe("lifecycle", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("stops delivering on disconnect and keeps workers for the next connect", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n]);
+		const [alice, bob] = peers;
+		alice.registerMessage(Note);
+		const received = inbox(bob);
+		const events: string[] = [];
+		bob.on("connected", () => events.push("connected"));
+		bob.on("disconnected", () => events.push("disconnected"));
+
+		await net.mineBlock();
+		await bob.disconnect();
+		await alice.send(new Note("offline"), { recipient: bob.publicKey });
+		await net.mineBlocks(2);
+		assert.equal(received.length, 0);
+		assert.equal(bob.isConnected, false);
+
+		await bob.connect();
+		await alice.send(new Note("online"), { recipient: bob.publicKey });
+		await mineUntil(net, () => received.includes("online"));
+
+		assert.deepEqual(events, ["disconnected", "connected"]);
+		// Bob saw a block before the disconnect, so the missed ones are backfilled.
+		assert.deepEqual(received.sort(), ["offline", "online"]);
+	});
+
+	it("removes listeners through the returned handles", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n]);
+		const [alice] = peers;
+		let calls = 0;
+		const off = alice.on("disconnected", () => calls++);
+		const offOnce = alice.once("connected", () => calls++);
+		offOnce();
+		off();
+
+		await alice.disconnect();
+		await alice.connect();
+
+		assert.equal(calls, 0);
+	});
+
+	it("cannot be connected again once disposed, and disposes once", async () => {
+		const net = new SimulatedNetwork();
+		const [alice] = await createPeers(net, [11n]);
+		let disconnects = 0;
+		alice.on("disconnected", () => disconnects++);
+
+		await alice.dispose();
+		await alice.dispose();
+
+		assert.equal(disconnects, 1);
+		await assert.rejects(alice.connect(), /disposed/);
+	});
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Kaspeak, SimulatedNetwork } from "../src";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+describe("messaging over SimulatedNetwork", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("delivers an encrypted message between two SDKs", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n]);
+		const [alice, bob] = peers;
+		alice.registerMessage(Note);
+		const received = inbox(bob);
+
+		await alice.send(new Note("hello bob"), { recipient: bob.publicKey });
+		await mineUntil(net, () => received.length > 0);
+
+		assert.deepEqual(received, ["hello bob"]);
+	});
+
+	it("reports what the transaction carried and cost", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n]);
+		const [alice, bob] = peers;
+		alice.registerMessage(Note);
+		const before = await alice.getBalanceSompi();
+
+		const result = await alice.send(new Note("hello bob"), { recipient: bob.publicKey });
+
+		assert.deepEqual(result.txids, [result.txid]);
+		assert.ok(result.payloadSize > 0);
+		assert.ok(result.feeSompi > 0n);
+		assert.equal(await alice.getBalanceSompi(), before - result.feeSompi);
+	});
+
+	it("refuses to send without a key or funds", async () => {
+		const net = new SimulatedNetwork();
+		const [bob] = await createPeers(net, [22n]);
+		const alice = await Kaspeak.create(11n, "TEST", { transport: net.createTransport() });
+		peers = [bob, alice];
+		await alice.connect();
+		alice.registerMessage(Note);
+
+		await assert.rejects(alice.send(new Note("no key")), /Message type 7 requires encryption: provide a recipient or a key/);
+		await assert.rejects(alice.send(new Note("unfunded"), { recipient: bob.publicKey }), /Insufficient funds/);
+	});
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { BaseMessage, Kaspeak, MessageHeader, MessageMigration, SimulatedNetwork, UnknownMessage } from "../src";
+import { createPeers, mineUntil } from "./helpers";
+
+/** Status update as first shipped: `{ t }`. */
+class StatusV1 extends BaseMessage {
+	static messageType = 10;
+	text: string;
+
+	constructor(text = "", header?: MessageHeader) {
+		super(header);
+		this.text = text;
+	}
+
+	toPlainObject(): object {
+		return { t: this.text };
+	}
+
+	fromPlainObject(obj: { t: string }): void {
+		this.text = obj.t;
+	}
+}
+
+/** Version 3: the text key was renamed in 2 and a mood was added in 3. */
+class StatusV3 extends BaseMessage {
+	static messageType = 10;
+	static schemaVersion = 3;
+	static migrations: Record<number, MessageMigration> = {
+		1: ({ t }) => ({ text: t }),
+		2: (obj) => ({ ...obj, mood: "neutral" })
+	};
+	text: string;
+	mood: string;
+
+	constructor(text = "", mood = "neutral", header?: MessageHeader) {
+		super(header);
+		this.text = text;
+		this.mood = mood;
+	}
+
+	toPlainObject(): object {
+		return { text: this.text, mood: this.mood };
+	}
+
+	fromPlainObject(obj: { text: string; mood: string }): void {
+		this.text = obj.text;
+		this.mood = obj.mood;
+	}
+}
+
+/** Version 2 receiver that does not know version 3 yet. */
+class StatusV2 extends StatusV3 {
+	static schemaVersion = 2;
+}
+
+/** Version 3 receiver that lost the step from version 1. */
+class StatusV3WithoutV1 extends StatusV3 {
+	static migrations: Record<number, MessageMigration> = { 2: StatusV3.migrations[2] };
+}
+
+describe("schema migrations", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	/** Messages `sdk` decodes with `cls`, failures included. */
+	function listen(sdk: Kaspeak, cls: typeof StatusV1 | typeof StatusV3): BaseMessage[] {
+		const decoded: BaseMessage[] = [];
+		sdk.registerMessage(cls, async (header, data) => {
+			if (!header.peer.isOwn) decoded.push(await sdk.decode(header, data));
+		});
+		return decoded;
+	}
+
+	it("upgrades older objects step by step", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n, 33n]);
+		const [oldClient, newClient, peer] = peers;
+		oldClient.registerMessage(StatusV1);
+		newClient.registerMessage(StatusV3);
+		const decoded = listen(peer, StatusV3);
+
+		await oldClient.send(new StatusV1("from v1"));
+		await mineUntil(net, () => decoded.length === 1);
+		await newClient.send(new StatusV3("from v3", "happy"));
+		await mineUntil(net, () => decoded.length === 2);
+
+		const texts = decoded.map((m) => `${(m as StatusV3).text} (${(m as StatusV3).mood})`);
+		assert.deepEqual(texts, ["from v1 (neutral)", "from v3 (happy)"]);
+	});
+
+	it("decodes newer objects and missing steps as an UnknownMessage", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n, 33n, 44n]);
+		const [oldClient, newClient, behind, broken] = peers;
+		oldClient.registerMessage(StatusV1);
+		newClient.registerMessage(StatusV3);
+		const behindDecoded = listen(behind, StatusV2);
+		const brokenDecoded = listen(broken, StatusV3WithoutV1);
+
+		await newClient.send(new StatusV3("from v3"));
+		await oldClient.send(new StatusV1("from v1"));
+		await mineUntil(net, () => behindDecoded.length === 2 && brokenDecoded.length === 2);
+
+		const failures = (decoded: BaseMessage[]) =>
+			decoded.filter((m): m is UnknownMessage => m instanceof UnknownMessage).map((m) => `${m.code} ${m.errorDesc}`);
+		assert.deepEqual(failures(behindDecoded), ["9 Migration failed: Schema version 3 is newer than 2"]);
+		assert.deepEqual(failures(brokenDecoded), ["9 Migration failed: No migration from schema version 1"]);
+	});
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Kaspeak, PaddingPolicy, SimulatedNetwork } from "../src";
+import { pad, unpad } from "../src/utils/padding";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+/** {@link Note} padded to 256 bytes. */
+class PaddedNote extends Note {
+	static paddingPolicy: PaddingPolicy = { sizes: [256] };
+}
+
+describe("pad", () => {
+	const data = new Uint8Array([1, 2, 3]);
+
+	it("round-trips every policy", () => {
+		const policies: PaddingPolicy[] = ["power-of-two", { sizes: [16, 64] }, (length) => length + 10];
+		for (const policy of policies) {
+			assert.deepEqual(unpad(pad(data, policy)), data);
+		}
+		assert.equal(pad(data, "power-of-two").length, 8);
+		assert.equal(pad(data, { sizes: [64, 16] }).length, 16);
+	});
+
+	it("never pads past the limit and rejects shrinking policies", () => {
+		assert.equal(pad(data, { sizes: [1024] }, 100).length, 100);
+		assert.throws(() => pad(data, () => 2), RangeError);
+	});
+
+	it("rejects data that was not padded", () => {
+		assert.throws(() => unpad(new Uint8Array([7, 3, 0, 0, 0, 1, 2, 3])), /Invalid padding/);
+		assert.throws(() => unpad(new Uint8Array([0, 9, 0, 0, 0, 1, 2, 3])), /Invalid padding length/);
+	});
+});
+
+describe("padded messages", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("hides the length of v2 messages and strips the padding on receipt", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n], { payloadVersion: 2 });
+		const [alice, bob] = peers;
+		alice.registerMessage(PaddedNote);
+		const received = inbox(bob);
+
+		const short = await alice.send(new PaddedNote("hi"), { recipient: bob.publicKey });
+		const longer = await alice.send(new PaddedNote("hello there, how are you doing today?"), { recipient: bob.publicKey });
+		await mineUntil(net, () => received.length === 2);
+
+		assert.equal(short.payloadSize, longer.payloadSize);
+		assert.deepEqual(received.sort(), ["hello there, how are you doing today?", "hi"]);
+	});
+
+	it("refuses to send a padded message as v1", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n]);
+		const [alice, bob] = peers;
+		alice.registerMessage(PaddedNote);
+
+		await assert.rejects(alice.send(new PaddedNote("hi"), { recipient: bob.publicKey }), /needs payloadVersion 2/);
+	});
+});
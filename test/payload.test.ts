@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Kaspeak, Payload, PayloadFlag, Secp256k1, SecretIdentifier, SimulatedNetwork } from "../src";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+const prefix = new TextEncoder().encode("TEST");
+const outIds = "ab".repeat(32);
+
+/** Signed v2 payload carrying `length` bytes. */
+async function v2Payload(length: number): Promise<Payload> {
+	const payload = new Payload(prefix, 7, SecretIdentifier.random(), Secp256k1.getPub(11n).toCompressed(), new Uint8Array(length).fill(1), 2, PayloadFlag.ENCRYPTED);
+	await payload.sign(outIds, 11n);
+	return payload;
+}
+
+describe("Payload v2", () => {
+	it("round-trips every varint length size and verifies the signature", async () => {
+		for (const length of [0, 127, 128, 16_383, 16_384, 0xffff]) {
+			const payload = await v2Payload(length);
+			const bytes = payload.toBytes();
+			const parsed = Payload.fromBytes(bytes);
+
+			assert.equal(bytes.length, Payload.headerSize(2, length) + length);
+			assert.equal(parsed.data.length, length);
+			assert.ok(parsed.hasFlag(PayloadFlag.ENCRYPTED));
+			assert.ok(await parsed.verify(outIds));
+		}
+	});
+
+	it("rejects a tampered flags byte", async () => {
+		const bytes = (await v2Payload(10)).toBytes();
+		bytes[5] ^= PayloadFlag.PADDED;
+
+		assert.equal(await Payload.fromBytes(bytes).verify(outIds), false);
+	});
+
+	it("rejects truncated, oversized, non-minimal and trailing lengths", async () => {
+		const bytes = (await v2Payload(10)).toBytes();
+		const lengthAt = Payload.headerSize(2, 10) - 1;
+		const withLength = (...length: number[]) => new Uint8Array([...bytes.subarray(0, lengthAt), ...length, ...bytes.subarray(lengthAt + 1)]);
+
+		assert.throws(() => Payload.fromBytes(bytes.subarray(0, lengthAt + 1)), /Data length mismatch/);
+		assert.throws(() => Payload.fromBytes(withLength(0x80).subarray(0, lengthAt + 1)), /Truncated varint/);
+		assert.throws(() => Payload.fromBytes(withLength(0x80, 0x80, 0x04)), /exceeds 65535/);
+		assert.throws(() => Payload.fromBytes(withLength(0x8a, 0x00)), /Non-minimal varint/);
+		assert.throws(() => Payload.fromBytes(withLength(0x80, 0x80, 0x80, 0x01)), /Varint too long/);
+		assert.throws(() => Payload.fromBytes(new Uint8Array([...bytes, 0])), /Data length mismatch/);
+	});
+
+	it("refuses data over the cap and flags in v1", () => {
+		const key = Secp256k1.getPub(11n).toCompressed();
+		assert.throws(() => new Payload(prefix, 7, SecretIdentifier.random(), key, new Uint8Array(0x10000), 2), /exceeds/);
+		assert.throws(() => new Payload(prefix, 7, SecretIdentifier.random(), key, new Uint8Array(1), 1, PayloadFlag.COMPRESSED), /no flags/);
+	});
+});
+
+describe("mixed payload versions", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("lets v1 and v2 senders share a prefix", async () => {
+		const net = new SimulatedNetwork();
+		const [alice] = await createPeers(net, [11n], { payloadVersion: 2 });
+		const [bob] = await createPeers(net, [22n]);
+		peers = [alice, bob];
+		const aliceInbox = inbox(alice);
+		const bobInbox = inbox(bob);
+
+		await alice.send(new Note("v2"), { recipient: bob.publicKey });
+		await bob.send(new Note("v1"), { recipient: alice.publicKey });
+		await mineUntil(net, () => aliceInbox.length > 0 && bobInbox.length > 0);
+
+		assert.deepEqual([aliceInbox, bobInbox], [["v1"], ["v2"]]);
+	});
+});
@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { EncryptedStateStore, Kaspeak, MemoryStateStore, RatchetSession, Secp256k1, SimulatedNetwork } from "../src";
+import { Note, createPeers, mineUntil } from "./helpers";
+
+const enc = (text: string) => new TextEncoder().encode(text);
+const dec = (data: Uint8Array | null) => (data ? new TextDecoder().decode(data) : null);
+
+describe("RatchetSession", () => {
+	it("decrypts messages delivered out of order, each once", async () => {
+		const alice = await RatchetSession.init(11n, Secp256k1.getPub(22n));
+		const bob = await RatchetSession.init(22n, Secp256k1.getPub(11n));
+		const sealed = ["a0", "a1", "a2"].map((text) => alice.seal(enc(text)));
+
+		assert.equal(dec(await bob.open(sealed[2])), "a2");
+		assert.equal(dec(await bob.open(sealed[0])), "a0");
+		assert.equal(dec(await bob.open(sealed[1])), "a1");
+		assert.equal(await bob.open(sealed[1]), null);
+	});
+
+	it("keeps working in both directions after a restore", async () => {
+		const alice = await RatchetSession.init(11n, Secp256k1.getPub(22n));
+		let bob = await RatchetSession.init(22n, Secp256k1.getPub(11n));
+
+		assert.equal(dec(await alice.open(bob.seal(enc("b0")))), "b0");
+		assert.equal(dec(await bob.open(alice.seal(enc("a0")))), "a0");
+		bob = RatchetSession.fromJSON(JSON.parse(JSON.stringify(bob.toJSON())), 22n);
+		assert.equal(dec(await bob.open(alice.seal(enc("a1")))), "a1");
+		assert.equal(dec(await alice.open(bob.seal(enc("b1")))), "b1");
+	});
+
+	it("rejects tampered messages without losing its state", async () => {
+		const alice = await RatchetSession.init(11n, Secp256k1.getPub(22n));
+		const bob = await RatchetSession.init(22n, Secp256k1.getPub(11n));
+		const sealed = alice.seal(enc("a0"));
+		const tampered = sealed.slice();
+		tampered[tampered.length - 1] ^= 1;
+
+		assert.equal(await bob.open(tampered), null);
+		assert.equal(dec(await bob.open(sealed)), "a0");
+	});
+
+	it("does not open messages sealed for someone else", async () => {
+		const alice = await RatchetSession.init(11n, Secp256k1.getPub(22n));
+		const carol = await RatchetSession.init(33n, Secp256k1.getPub(11n));
+
+		assert.equal(await carol.open(alice.seal(enc("for bob"))), null);
+	});
+});
+
+describe("ratchet conversations", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("exchanges ratchet-encrypted messages in a conversation", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n]);
+		const [alice, bob] = peers;
+		const aliceChat = await alice.conversation(bob.publicKey, { ratchet: true });
+		const bobChat = await bob.conversation(alice.publicKey, { ratchet: true });
+		const log: string[] = [];
+		for (const [name, sdk, chat] of [["alice", alice, aliceChat], ["bob", bob, bobChat]] as const) {
+			sdk.registerMessage(Note, async (header, data) => {
+				if (chat.accept(header) === null) return;
+				log.push(`${name}<${(await chat.decode<Note>(header, data)).text}`);
+			});
+		}
+
+		await aliceChat.send(new Note("one"));
+		await mineUntil(net, () => log.length === 1);
+		await bobChat.send(new Note("two"));
+		await mineUntil(net, () => log.length === 2);
+
+		assert.deepEqual(log, ["bob<one", "alice<two"]);
+	});
+
+	it("stores ratchet sessions sealed and restores them after a restart", async () => {
+		const net = new SimulatedNetwork();
+		const stateStore = new MemoryStateStore();
+		const bobPub = Secp256k1.getPub(22n);
+		let alice = await Kaspeak.create(11n, "TEST", { transport: net.createTransport(), stateStore });
+		const before = await alice.ratchetSession(bobPub);
+		const sealed = before.seal(enc("a0"));
+		await alice.saveState();
+		await alice.dispose();
+
+		const stored = JSON.stringify(await stateStore.get(`kaspeak:TEST:${alice.publicKey}:ratchets`));
+		assert.match(stored, /\$sealed/);
+		assert.doesNotMatch(stored, /rootKey/);
+
+		alice = await Kaspeak.create(11n, "TEST", { transport: net.createTransport(), stateStore });
+		const after = await alice.ratchetSession(bobPub);
+		const bob = await RatchetSession.init(22n, Secp256k1.getPub(11n));
+		assert.equal(dec(await bob.open(sealed)), "a0");
+		assert.equal(dec(await bob.open(after.seal(enc("a1")))), "a1");
+		await alice.dispose();
+	});
+});
+
+describe("EncryptedStateStore", () => {
+	const key = new Uint8Array(32).fill(7);
+
+	it("round-trips values without storing them in plaintext", async () => {
+		const inner = new MemoryStateStore();
+		const store = new EncryptedStateStore(inner, key);
+		await store.set("secret", { rootKey: "root-secret" });
+
+		assert.deepEqual(await store.get("secret"), { rootKey: "root-secret" });
+		assert.doesNotMatch(JSON.stringify(await inner.get("secret")), /root-secret/);
+		assert.equal(await store.get("missing"), undefined);
+	});
+
+	it("refuses plaintext values unless migrating, then seals them in place", async () => {
+		const inner = new MemoryStateStore();
+		await inner.set("legacy", { rootKey: "root-secret" });
+
+		await assert.rejects(new EncryptedStateStore(inner, key).get("legacy"), /not encrypted/);
+		assert.deepEqual(await new EncryptedStateStore(inner, key, true).get("legacy"), { rootKey: "root-secret" });
+		assert.deepEqual(await new EncryptedStateStore(inner, key).get("legacy"), { rootKey: "root-secret" });
+		assert.doesNotMatch(JSON.stringify(await inner.get("legacy")), /root-secret/);
+	});
+
+	it("rejects values sealed under another key or moved to another entry", async () => {
+		const inner = new MemoryStateStore();
+		await new EncryptedStateStore(inner, key).set("a", 1);
+		await inner.set("b", await inner.get("a"));
+
+		await assert.rejects(new EncryptedStateStore(inner, new Uint8Array(32)).get("a"), /Cannot decrypt/);
+		await assert.rejects(new EncryptedStateStore(inner, key).get("b"), /Cannot decrypt/);
+	});
+});
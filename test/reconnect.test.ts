@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Kaspeak, KaspaTransport, ReconnectAttempt, SimulatedNetwork } from "../src";
+import { ReconnectHooks, ReconnectOptions, ReconnectSupervisor } from "../src/sdk/reconnect-supervisor";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+/** The parts of a transport the supervisor uses. */
+class FakeTransport {
+	isConnected = true;
+	readonly handlers = new Set<(connected: boolean) => void>();
+
+	onConnectionChange(cb: (connected: boolean) => void): () => void {
+		this.handlers.add(cb);
+		return () => this.handlers.delete(cb);
+	}
+
+	async disconnect(): Promise<void> {
+		this.isConnected = false;
+	}
+
+	change(connected: boolean): void {
+		this.isConnected = connected;
+		for (const handler of this.handlers) handler(connected);
+	}
+}
+
+/** Supervisor over a {@link FakeTransport}, recording attempts and the hooks it calls. */
+function supervise(options: ReconnectOptions, reconnect: ReconnectHooks["reconnect"]) {
+	const transport = new FakeTransport();
+	const attempts: ReconnectAttempt[] = [];
+	let settle!: (outcome: string) => void;
+	const outcome = new Promise<string>((resolve) => (settle = resolve));
+	const supervisor = new ReconnectSupervisor(transport as unknown as KaspaTransport, options, {
+		reconnect,
+		restore: async () => settle("restored"),
+		onReconnecting: (attempt) => attempts.push(attempt),
+		onGiveUp: (e) => settle(`gave up: ${e.message}`)
+	});
+	supervisor.start();
+	return { transport, attempts, outcome, supervisor };
+}
+
+describe("ReconnectSupervisor", () => {
+	it("backs off, rotates through the nodes and gives up after maxAttempts", async () => {
+		const options = { urls: ["a", "b"], useResolver: false, initialDelayMs: 1, factor: 2, maxDelayMs: 3, maxAttempts: 3 };
+		const { transport, attempts, outcome, supervisor } = supervise(options, async (url) => {
+			throw new Error(`${url} is down`);
+		});
+
+		transport.change(false);
+
+		assert.equal(await outcome, "gave up: a is down");
+		assert.deepEqual(attempts, [
+			{ attempt: 1, delayMs: 1, url: "a" },
+			{ attempt: 2, delayMs: 2, url: "b" },
+			{ attempt: 3, delayMs: 3, url: "a" }
+		]);
+		supervisor.stop();
+	});
+
+	it("falls back to the resolver and restores after a successful attempt", async () => {
+		const urls: (string | undefined)[] = [];
+		const { transport, attempts, outcome, supervisor } = supervise({ urls: ["a"], initialDelayMs: 1 }, async (url) => {
+			urls.push(url);
+			if (url === "a") throw new Error("a is down");
+			transport.isConnected = true;
+		});
+
+		transport.change(false);
+
+		assert.equal(await outcome, "restored");
+		assert.deepEqual(urls, ["a", undefined]);
+		assert.equal(attempts.length, 2);
+		supervisor.stop();
+	});
+
+	it("only restores when the transport recovers by itself", async () => {
+		let reconnects = 0;
+		const { transport, outcome, supervisor } = supervise({ initialDelayMs: 60_000 }, async () => {
+			reconnects++;
+		});
+
+		transport.change(false);
+		transport.change(true);
+
+		assert.equal(await outcome, "restored");
+		assert.equal(reconnects, 0);
+		supervisor.stop();
+	});
+});
+
+describe("reconnecting SDK", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("reconnects after the node goes away and backfills what it missed", async () => {
+		const net = new SimulatedNetwork();
+		const [alice] = await createPeers(net, [11n]);
+		const transport = net.createTransport();
+		const bob = await Kaspeak.create(22n, "TEST", { transport, reconnect: { initialDelayMs: 20 } });
+		peers = [alice, bob];
+		const received = inbox(bob);
+		const events: string[] = [];
+		for (const event of ["connected", "disconnected", "reconnecting"] as const) bob.on(event, () => events.push(event));
+		await bob.connect();
+		alice.registerMessage(Note);
+		await alice.send(new Note("before"), { recipient: bob.publicKey });
+		await mineUntil(net, () => received.length > 0);
+
+		transport.simulateDisconnect();
+		await alice.send(new Note("while away"), { recipient: bob.publicKey });
+		await net.mineBlocks(2);
+		assert.deepEqual(received, ["before"]);
+		await new Promise<void>((resolve) => bob.once("connected", () => resolve()));
+		await mineUntil(net, () => received.length > 1);
+
+		assert.deepEqual(received, ["before", "while away"]);
+		assert.deepEqual(events, ["connected", "disconnected", "reconnecting", "connected"]);
+	});
+
+	it("stays offline when reconnect is disabled", async () => {
+		const net = new SimulatedNetwork();
+		const transport = net.createTransport();
+		const bob = await Kaspeak.create(22n, "TEST", { transport, reconnect: false });
+		peers = [bob];
+		await bob.connect();
+
+		transport.simulateDisconnect();
+		await new Promise((resolve) => setTimeout(resolve, 50));
+
+		assert.equal(bob.isConnected, false);
+	});
+});
@@ -0,0 +1,53 @@
+import { build } from "esbuild";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+// Bundles every test/*.test.ts to CommonJS and runs the bundles with the
+// Node.js test runner. The WASM packages stay external and load from
+// node_modules, as they do for consumers of pkg/cjs.
+
+const files = readdirSync("test")
+	.filter((file) => file.endsWith(".test.ts"))
+	.map((file) => path.join("test", file));
+const outdir = mkdtempSync(path.join(tmpdir(), "kaspeak-test-"));
+
+try {
+	await build({
+		entryPoints: files,
+		outdir,
+		outExtension: { ".js": ".cjs" },
+		platform: "node",
+		bundle: true,
+		format: "cjs",
+		target: ["node18"],
+		tsconfig: "tsconfig.json",
+		external: ["kaspa-wasm", "@bokuweb/zstd-wasm"],
+		plugins: [wasmUrlPlugin()],
+		logLevel: "error"
+	});
+	const bundles = files.map((file) => path.join(outdir, path.basename(file, ".ts") + ".cjs"));
+	const result = spawnSync(process.execPath, ["--test", ...bundles], {
+		stdio: "inherit",
+		env: {
+			...process.env,
+			NODE_PATH: path.resolve("node_modules"),
+			KASPEAK_LOG_LEVEL: process.env.KASPEAK_LOG_LEVEL ?? "silent"
+		}
+	});
+	process.exitCode = result.status ?? 1;
+} finally {
+	rmSync(outdir, { recursive: true, force: true });
+}
+
+/** `?url` imports only matter in the browser; Node.js loads kaspa-wasm itself. */
+function wasmUrlPlugin() {
+	return {
+		name: "wasm-url",
+		setup(build) {
+			build.onResolve({ filter: /\?url$/ }, (args) => ({ path: args.path, namespace: "wasm-url" }));
+			build.onLoad({ filter: /.*/, namespace: "wasm-url" }, () => ({ contents: "export default ''", loader: "js" }));
+		}
+	};
+}
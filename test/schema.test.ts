@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { BaseMessage, Kaspeak, MessageHeader, MessageSchema, SimulatedNetwork, UnknownMessage, validateSchema } from "../src";
+import { createPeers, mineUntil } from "./helpers";
+
+const profileSchema: MessageSchema = {
+	name: { type: "string", key: "n", maxLength: 100 },
+	age: { type: "integer", key: "a", optional: true },
+	avatar: { type: "bytes", key: "v", optional: true, maxLength: 4 },
+	tags: { type: "array", key: "t", maxLength: 2, items: { type: "string", maxLength: 8 } },
+	home: { type: "object", key: "h", fields: { city: { type: "string", key: "c" } } }
+};
+
+/** Profile message described by {@link profileSchema}. */
+class Profile extends BaseMessage {
+	static messageType = 9;
+	static schema = profileSchema;
+	name: string;
+	age?: number;
+	avatar?: Uint8Array;
+	tags: string[] = [];
+	home = { city: "" };
+
+	constructor(name = "", header?: MessageHeader) {
+		super(header);
+		this.name = name;
+	}
+}
+
+/** {@link Profile} as a receiver with a stricter name limit sees it. */
+class StrictProfile extends Profile {
+	static schema: MessageSchema = { ...profileSchema, name: { type: "string", key: "n", maxLength: 3 } };
+}
+
+describe("validateSchema", () => {
+	const valid = { n: "alice", a: 30, v: new Uint8Array(4), t: ["x"], h: { c: "Oslo" }, extra: true };
+
+	it("accepts conforming objects and ignores unknown keys", () => {
+		validateSchema(profileSchema, valid);
+		validateSchema(profileSchema, { ...valid, a: undefined, v: null });
+	});
+
+	it("names the field that fails", () => {
+		assert.throws(() => validateSchema(profileSchema, { ...valid, n: undefined }), /name is required/);
+		assert.throws(() => validateSchema(profileSchema, { ...valid, a: 1.5 }), /age must be an integer/);
+		assert.throws(() => validateSchema(profileSchema, { ...valid, v: new Uint8Array(5) }), /avatar is longer than 4/);
+		assert.throws(() => validateSchema(profileSchema, { ...valid, t: ["x", "y", "z"] }), /tags is longer than 2/);
+		assert.throws(() => validateSchema(profileSchema, { ...valid, t: ["too long!"] }), /tags\[0\] is longer than 8/);
+		assert.throws(() => validateSchema(profileSchema, { ...valid, h: { c: 1 } }), /home\.city must be a string/);
+		assert.throws(() => validateSchema(profileSchema, "not an object"), /message must be an object/);
+	});
+});
+
+describe("schema messages", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("generates toPlainObject and fromPlainObject from the schema", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n]);
+		const [alice, bob] = peers;
+		const received: Profile[] = [];
+		alice.registerMessage(Profile);
+		bob.registerMessage(Profile, async (header, data) => {
+			received.push(await bob.decode<Profile>(header, data));
+		});
+		const profile = Object.assign(new Profile("alice"), { avatar: new Uint8Array([1, 2]), tags: ["a"], home: { city: "Oslo" } });
+
+		assert.deepEqual(profile.toPlainObject(), { n: "alice", v: new Uint8Array([1, 2]), t: ["a"], h: { c: "Oslo" } });
+		await alice.send(profile);
+		await mineUntil(net, () => received.length > 0);
+
+		assert.ok(received[0] instanceof Profile);
+		assert.equal(received[0].name, "alice");
+		assert.deepEqual(received[0].avatar, new Uint8Array([1, 2]));
+		assert.deepEqual(received[0].home, { city: "Oslo" });
+	});
+
+	it("decodes objects that violate the schema as UnknownMessage with code 8", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n]);
+		const [alice, bob] = peers;
+		const received: BaseMessage[] = [];
+		alice.registerMessage(Profile);
+		bob.registerMessage(StrictProfile, async (header, data) => {
+			received.push(await bob.decode(header, data));
+		});
+
+		await alice.send(new Profile("alice"));
+		await mineUntil(net, () => received.length > 0);
+
+		assert.ok(received[0] instanceof UnknownMessage);
+		assert.equal(received[0].code, 8);
+		assert.match(received[0].errorDesc!, /Schema validation failed/);
+	});
+
+	it("refuses to encode a class with neither a schema nor its own methods", () => {
+		class Bare extends BaseMessage {
+			constructor() {
+				super();
+			}
+		}
+
+		assert.throws(() => new Bare().toPlainObject(), /needs a schema/);
+	});
+});
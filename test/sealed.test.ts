@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Kaspeak, MessageHeader, SealedEnvelope, Secp256k1, SimulatedNetwork, randomBytes } from "../src";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+describe("SealedEnvelope", () => {
+	const envelope = new SealedEnvelope(Secp256k1.getPub(11n).toCompressed(), randomBytes(64), 7, new Uint8Array([1, 2, 3]));
+	const oneTimeKey = 99n;
+	const oneTimePublicKey = Secp256k1.getPub(oneTimeKey).toCompressed();
+
+	it("opens only for the recipient", async () => {
+		const sealed = envelope.seal(oneTimeKey, Secp256k1.getPub(22n));
+
+		const opened = await SealedEnvelope.open(sealed, 22n, oneTimePublicKey);
+		assert.deepEqual(opened?.publicKey, envelope.publicKey);
+		assert.deepEqual(opened?.signature, envelope.signature);
+		assert.equal(opened?.messageType, 7);
+		assert.deepEqual(opened?.data, envelope.data);
+		assert.equal(await SealedEnvelope.open(sealed, 33n, oneTimePublicKey), null);
+	});
+
+	it("does not open when tampered with or bound to another one-time key", async () => {
+		const sealed = envelope.seal(oneTimeKey, Secp256k1.getPub(22n));
+		const tampered = sealed.slice();
+		tampered[tampered.length - 1] ^= 1;
+
+		assert.equal(await SealedEnvelope.open(tampered, 22n, oneTimePublicKey), null);
+		assert.equal(await SealedEnvelope.open(sealed, 22n, Secp256k1.getPub(98n).toCompressed()), null);
+	});
+});
+
+describe("sealed sender", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("hides the sender on-chain and reveals it only to the recipient", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n, 33n]);
+		const [alice, bob, carol] = peers;
+		const ownSent = inbox(alice);
+		const received = inbox(bob);
+		const overheard = inbox(carol);
+		const onChain: MessageHeader[] = [];
+		carol.on("KaspeakMessageReceived", ({ header }) => onChain.push(header));
+		const senders: string[] = [];
+		bob.on("KaspeakMessageReceived", ({ header }) => senders.push(header.peer.address));
+
+		await alice.send(new Note("sealed"), { recipient: bob.publicKey, sealed: true });
+		await mineUntil(net, () => received.length > 0);
+		await net.mineBlock();
+
+		assert.deepEqual(received, ["sealed"]);
+		assert.deepEqual(senders, [alice.address]);
+		assert.deepEqual(overheard, []);
+		assert.deepEqual(ownSent, []);
+		assert.equal(onChain.length, 0);
+	});
+
+	it("requires a recipient", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n]);
+		const [alice] = peers;
+		alice.registerMessage(Note);
+
+		await assert.rejects(alice.send(new Note("nobody"), { key: new Uint8Array(32), sealed: true }), /Sealed messages require a recipient/);
+	});
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Kaspeak, SecretShare, Shamir, SimulatedNetwork, bytesToHex } from "../src";
+import { createPeers, mineUntil } from "./helpers";
+
+describe("Shamir", () => {
+	const secret = 0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdefn;
+
+	it("recovers the secret from any threshold of shares", () => {
+		const shares = Shamir.split(secret, 3, 5);
+		for (const subset of [[0, 1, 2], [0, 2, 4], [4, 3, 1], [0, 1, 2, 3, 4]]) {
+			assert.equal(Shamir.combine(subset.map((i) => shares[i])), secret);
+		}
+	});
+
+	it("refuses to combine too few or mixed shares", () => {
+		const shares = Shamir.split(secret, 3, 5);
+		assert.throws(() => Shamir.combine(shares.slice(0, 2)), /Need 3 shares/);
+		const other = Shamir.split(secret + 1n, 3, 5);
+		assert.throws(() => Shamir.combine([shares[0], shares[1], other[2]]), /different secrets/);
+	});
+
+	it("round-trips the encoded form and catches typos", () => {
+		const [share] = Shamir.split(secret, 2, 3);
+		const encoded = Shamir.encodeShare(share);
+		assert.deepEqual(Shamir.decodeShare(encoded), share);
+		encoded[10] ^= 1;
+		assert.throws(() => Shamir.decodeShare(encoded), /checksum/);
+		assert.throws(() => Shamir.decodeShare(encoded.subarray(1)), /Share must be 43 bytes/);
+	});
+
+	it("refuses invalid secrets, thresholds and counts", () => {
+		assert.throws(() => Shamir.split(0n, 2, 3), RangeError);
+		assert.throws(() => Shamir.split(secret, 4, 3), /Invalid threshold 4 for 3 shares/);
+		assert.throws(() => Shamir.split(secret, 1, 256), /Invalid share count 256/);
+	});
+});
+
+describe("key share delivery", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	/** Shares `sdk` receives, with their senders. */
+	const collect = (sdk: Kaspeak) => {
+		const shares: { from: string; share: SecretShare }[] = [];
+		sdk.on("keyShareReceived", ({ from, share }) => shares.push({ from, share }));
+		return shares;
+	};
+
+	it("hands shares to the contacts and back to the recovery key", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n, 33n, 44n, 55n]);
+		const [owner, bob, carol, eve, recovery] = peers;
+		const [bobShares, carolShares, eveShares, recovered] = [bob, carol, eve, recovery].map(collect);
+
+		await owner.sendKeyShares(Shamir.split(11n, 2, 2), [bob.publicKey, carol.publicKey]);
+		await mineUntil(net, () => bobShares.length > 0 && carolShares.length > 0);
+		await bob.sendKeyShares([bobShares[0].share], [recovery.publicKey]);
+		await carol.sendKeyShares([carolShares[0].share], [recovery.publicKey]);
+		await mineUntil(net, () => recovered.length === 2);
+
+		assert.equal(bobShares[0].from, owner.publicKey);
+		assert.deepEqual(recovered.map(({ from }) => from).sort(), [bob.publicKey, carol.publicKey].sort());
+		assert.equal(Shamir.combine(recovered.map(({ share }) => share)), 11n);
+		assert.equal(eveShares.length, 0);
+	});
+
+	it("refuses mismatched shares and contacts", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n]);
+
+		await assert.rejects(peers[0].sendKeyShares(Shamir.split(11n, 2, 3), [bytesToHex(new Uint8Array(33))]), /Got 3 shares for 1 contacts/);
+	});
+});
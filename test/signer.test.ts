@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import type { Transaction } from "kaspa-wasm";
+import { Kaspeak, KaspeakOptions, KeySigner, MockSigner, Point, Secp256k1, SimulatedNetwork, Signer } from "../src";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+/** Signer answering ECDH only asynchronously, like a browser wallet. */
+class WalletSigner implements Signer {
+	readonly #key: KeySigner;
+	readonly publicKey: Uint8Array;
+	sharedSecretCalls = 0;
+
+	constructor(privateKey: bigint) {
+		this.#key = new KeySigner(privateKey);
+		this.publicKey = this.#key.publicKey;
+	}
+
+	signMessage(message: Uint8Array | string): Promise<Uint8Array> {
+		return this.#key.signMessage(message);
+	}
+
+	signTransaction(tx: Transaction): Promise<Transaction> {
+		return this.#key.signTransaction(tx);
+	}
+
+	getSharedSecret(publicKey: Point): Promise<Uint8Array> {
+		this.sharedSecretCalls++;
+		return this.#key.getSharedSecret(publicKey);
+	}
+}
+
+describe("signers", () => {
+	let net: SimulatedNetwork;
+	let peers: Kaspeak[] = [];
+
+	/** Connected and funded SDK instance for `signer`. */
+	const connect = async (signer: Signer, options: KaspeakOptions = {}) => {
+		const sdk = await Kaspeak.create(signer, "TEST", { ...options, transport: net.createTransport() });
+		await sdk.connect();
+		net.fund(sdk.address, 1_000_000_000_000n);
+		peers.push(sdk);
+		return sdk;
+	};
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("keeps synchronous keys for local signers and records their operations", async () => {
+		net = new SimulatedNetwork();
+		const signer = new MockSigner(11n);
+		const alice = await connect(signer);
+		const [bob] = await createPeers(net, [22n]);
+		peers.push(bob);
+		const received = inbox(bob);
+		let secret: Uint8Array | undefined;
+		alice.registerMessage(Note, (header) => {
+			if (!header.peer.isOwn) secret = header.peer.sharedSecret;
+		});
+
+		const keys = alice.deriveConversationKeys(bob.publicKey);
+		assert.deepEqual(keys, await alice.deriveConversationKeysAsync(bob.publicKey));
+		assert.deepEqual(keys.secret, Secp256k1.getSharedSecret(11n, Secp256k1.getPub(22n)));
+		await alice.send(new Note("hi"), { recipient: bob.publicKey });
+		await bob.send(new Note("hello"), { recipient: alice.publicKey });
+		await mineUntil(net, () => received.length > 0 && !!secret);
+
+		assert.deepEqual(received, ["hi"]);
+		assert.deepEqual(secret, keys.secret);
+		assert.ok(signer.calls.includes("getSharedSecret"));
+		assert.ok(signer.calls.includes("signMessage"));
+	});
+
+	it("fails sends the signer rejects", async () => {
+		net = new SimulatedNetwork();
+		const signer = new MockSigner(11n);
+		const alice = await connect(signer);
+		alice.registerMessage(Note);
+		signer.rejectWith = new Error("User rejected the request");
+
+		await assert.rejects(alice.send(new Note("hi"), { recipient: alice.publicKey }), /User rejected/);
+	});
+
+	it("offers asynchronous keys for external signers and asks them once per peer", async () => {
+		net = new SimulatedNetwork();
+		const signer = new WalletSigner(11n);
+		const alice = await connect(signer);
+		const [bob] = await createPeers(net, [22n]);
+		peers.push(bob);
+		const received: string[] = [];
+		alice.registerMessage(Note, async (header, data) => {
+			if (header.peer.isOwn) return;
+			assert.throws(() => header.peer.sharedSecret, /getSharedSecret\(\)/);
+			assert.equal(await header.peer.getChainKey(), (await alice.deriveConversationKeysAsync(bob.publicKey)).chainKey);
+			received.push((await alice.decode<Note>(header, data, await header.peer.getSharedSecret())).text);
+		});
+
+		assert.throws(() => alice.deriveConversationKeys(bob.publicKey), /deriveConversationKeysAsync\(\)/);
+		const calls = signer.sharedSecretCalls;
+		await Promise.all([alice.deriveConversationKeysAsync(bob.publicKey), alice.deriveConversationKeysAsync(bob.publicKey)]);
+		assert.equal(signer.sharedSecretCalls, calls + 1);
+		await bob.send(new Note("hello"), { recipient: alice.publicKey });
+		await mineUntil(net, () => received.length > 0);
+
+		assert.deepEqual(received, ["hello"]);
+	});
+
+	it("opens sealed messages for external signers only when asked to", async () => {
+		net = new SimulatedNetwork();
+		const wallet = await connect(new WalletSigner(11n));
+		const opted = await connect(new WalletSigner(33n), { openSealed: true });
+		const [bob] = await createPeers(net, [22n]);
+		peers.push(bob);
+		const received: string[] = [];
+		for (const sdk of [wallet, opted]) {
+			sdk.registerMessage(Note, async (header, data) => {
+				const { secret } = await sdk.deriveConversationKeysAsync(header.peer.publicKey);
+				received.push((await sdk.decode<Note>(header, data, secret)).text);
+			});
+		}
+		bob.registerMessage(Note);
+
+		await bob.send(new Note("to wallet"), { recipient: wallet.publicKey, sealed: true });
+		await bob.send(new Note("to opted"), { recipient: opted.publicKey, sealed: true });
+		await mineUntil(net, () => received.length > 0);
+		await net.mineBlocks(3);
+
+		assert.deepEqual(received, ["to opted"]);
+	});
+});
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, afterEach, describe, it } from "node:test";
+import { FileStateStore, Kaspeak, SimulatedNetwork } from "../src";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+const dir = mkdtempSync(path.join(tmpdir(), "kaspeak-state-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("FileStateStore", () => {
+	it("persists values across instances", async () => {
+		const file = path.join(dir, "values.json");
+		const store = new FileStateStore(file);
+		await Promise.all([store.set("a", { n: 1 }), store.set("b", [1, 2]), store.set("a", { n: 2 })]);
+		await store.delete("b");
+		await store.delete("missing");
+
+		const reopened = new FileStateStore(file);
+		assert.deepEqual(await reopened.get("a"), { n: 2 });
+		assert.equal(await reopened.get("b"), undefined);
+	});
+
+	it("starts empty without a file and refuses a corrupt one", async () => {
+		assert.equal(await new FileStateStore(path.join(dir, "missing.json")).get("a"), undefined);
+
+		const corrupt = path.join(dir, "corrupt.json");
+		writeFileSync(corrupt, "{ not json");
+		await assert.rejects(new FileStateStore(corrupt).get("a"), /Cannot read state file/);
+	});
+});
+
+describe("sync cursor", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("resumes after a restart from the last processed block without redelivering", async () => {
+		const net = new SimulatedNetwork();
+		const file = path.join(dir, "bob.json");
+		/** Bob with an inbox registered before `connect()` starts the resume. */
+		const connectBob = async () => {
+			const bob = await Kaspeak.create(22n, "TEST", { transport: net.createTransport(), stateStore: new FileStateStore(file) });
+			const received = inbox(bob);
+			await bob.connect();
+			peers.push(bob);
+			return { bob, received };
+		};
+		const [alice] = await createPeers(net, [11n]);
+		peers.push(alice);
+		alice.registerMessage(Note);
+		let { bob, received } = await connectBob();
+
+		await alice.send(new Note("one"), { recipient: bob.publicKey });
+		await mineUntil(net, () => received.length > 0);
+		await bob.dispose();
+		const stored = await new FileStateStore(file).get<{ hash: string }>(`kaspeak:TEST:${bob.publicKey}:cursor:${net.networkId}`);
+		assert.equal(stored?.hash, bob.cursor?.hash);
+
+		await alice.send(new Note("two"), { recipient: bob.publicKey });
+		await net.mineBlocks(2);
+		({ bob, received } = await connectBob());
+		await mineUntil(net, () => received.length > 0);
+		await net.mineBlock();
+
+		assert.deepEqual(received, ["two"]);
+	});
+});
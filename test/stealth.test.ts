@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { Identifier, Kaspeak, Secp256k1, SimulatedNetwork } from "../src";
+import { Note, createPeers, inbox, mineUntil } from "./helpers";
+
+describe("Identifier.stealth", () => {
+	const oneTimeKey = 99n;
+	const oneTimePublicKey = Secp256k1.getPub(oneTimeKey);
+
+	it("is recognized only by the recipient of that one-time key", async () => {
+		const identifier = Identifier.stealth(oneTimeKey, Secp256k1.getPub(22n));
+
+		assert.equal(await identifier.isStealthFor(22n, oneTimePublicKey), true);
+		assert.equal(await identifier.isStealthFor(33n, oneTimePublicKey), false);
+		assert.equal(await identifier.isStealthFor(22n, Secp256k1.getPub(98n)), false);
+		assert.notEqual(Identifier.stealth(98n, Secp256k1.getPub(22n)).hex, identifier.hex);
+	});
+});
+
+describe("stealth first contact", () => {
+	let peers: Kaspeak[] = [];
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("hands first contacts to the handler instead of the type worker", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n, 22n, 33n]);
+		const [alice, bob, carol] = peers;
+		alice.registerMessage(Note);
+		const received = inbox(bob);
+		const firstContacts: string[] = [];
+		const stop = bob.onFirstContact(async (header, data) => {
+			const { secret } = bob.deriveConversationKeys(header.peer.publicKey);
+			firstContacts.push(`${header.peer.address}: ${(await bob.decode<Note>(header, data, secret)).text}`);
+		});
+		let carolScanned = 0;
+		carol.onFirstContact(() => void carolScanned++);
+
+		await alice.send(new Note("hi, we have not met"), { recipient: bob.publicKey, stealth: true });
+		await mineUntil(net, () => firstContacts.length > 0);
+		stop();
+		await alice.send(new Note("second"), { recipient: bob.publicKey, stealth: true });
+		await mineUntil(net, () => received.length > 0);
+
+		assert.deepEqual(firstContacts, [`${alice.address}: hi, we have not met`]);
+		assert.deepEqual(received, ["second"]);
+		assert.equal(carolScanned, 0);
+	});
+
+	it("requires a recipient", async () => {
+		const net = new SimulatedNetwork();
+		peers = await createPeers(net, [11n]);
+		const [alice] = peers;
+		alice.registerMessage(Note);
+
+		await assert.rejects(alice.send(new Note("nobody"), { key: new Uint8Array(32), stealth: true }), /Sealed messages require a recipient/);
+	});
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { Kaspeak, Secp256k1, SimulatedNetwork, SyncProgress } from "../src";
+import { Note, createPeers, inbox } from "./helpers";
+
+const bobPublicKey = Secp256k1.getPub(22n).toCompressed();
+
+describe("backfill", () => {
+	let net: SimulatedNetwork;
+	let peers: Kaspeak[] = [];
+
+	/** Alice sends `texts` one block apart while Bob is offline; returns the hash and DAA score of each block. */
+	const history = async (texts: string[]) => {
+		const [alice] = await createPeers(net, [11n]);
+		peers.push(alice);
+		alice.registerMessage(Note);
+		const blocks: { hash: string; daaScore: bigint }[] = [];
+		for (const text of texts) {
+			await alice.send(new Note(text), { recipient: bobPublicKey });
+			blocks.push((await net.mineBlock()).header);
+		}
+		await net.mineBlocks(2);
+		return blocks;
+	};
+
+	/** Bob, connected after the history was written. */
+	const bob = async () => {
+		const [sdk] = await createPeers(net, [22n]);
+		peers.push(sdk);
+		return sdk;
+	};
+
+	beforeEach(() => {
+		net = new SimulatedNetwork({ pageSize: 3 });
+	});
+
+	afterEach(async () => {
+		await Promise.all(peers.map((sdk) => sdk.dispose()));
+		peers = [];
+	});
+
+	it("delivers past messages once and reports progress page by page", async () => {
+		await history(["one", "two"]);
+		const sdk = await bob();
+		const received = inbox(sdk);
+		const progress: SyncProgress[] = [];
+		sdk.on("syncProgress", (p) => progress.push(p));
+
+		const result = await sdk.sync();
+		const done = progress.map((p) => p.done);
+		await sdk.sync();
+
+		assert.deepEqual(received, ["one", "two"]);
+		assert.equal(result.processedBlocks, Number(net.daaScore) + 1);
+		assert.equal(result.lastBlockHash, net.tip.header.hash);
+		assert.ok(done.length > 2);
+		assert.deepEqual(done, [...Array(done.length - 1).fill(false), true]);
+	});
+
+	it("starts from a block hash or skips blocks below a DAA score", async () => {
+		const [, second, third] = await history(["one", "two", "three"]);
+		const sdk = await bob();
+		const received = inbox(sdk);
+
+		await sdk.sync({ fromBlockHash: third.hash });
+		assert.deepEqual(received, ["three"]);
+		await sdk.sync({ fromDaaScore: second.daaScore });
+		assert.deepEqual(received, ["three", "two"]);
+	});
+
+	it("stops at the DAA score observed at start unless asked to reach the tip", async () => {
+		await history(["one"]);
+		const sdk = await bob();
+		let mining: Promise<unknown> | undefined;
+		sdk.once("syncProgress", () => (mining = net.mineBlocks(6)));
+
+		const result = await sdk.sync({ toTip: false });
+		await mining;
+
+		assert.ok(result.lastDaaScore < net.daaScore, `${result.lastDaaScore} ≥ ${net.daaScore}`);
+	});
+
+	it("rejects an unknown starting block and refuses to run offline", async () => {
+		const sdk = await bob();
+
+		await assert.rejects(sdk.sync({ fromBlockHash: "ff".repeat(32) }), /not found/);
+		await sdk.disconnect();
+		await assert.rejects(sdk.sync(), /not connected/);
+	});
+});